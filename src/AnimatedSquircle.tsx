@@ -0,0 +1,220 @@
+/**
+ * @file packages/expo-squircle/src/AnimatedSquircle.tsx
+ * @description Squircle component whose radii, smoothing, colors and border width can be driven by Reanimated shared values.
+ *
+ * Exports
+ *   - default (AnimatedSquircle)
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import type * as ReanimatedModule from 'react-native-reanimated';
+import Svg, { ClipPath, Defs, Path } from 'react-native-svg';
+
+import type {
+  AnimatedSquircleProps,
+  SquircleAnimatableValue,
+} from './ExpoSquircle.types';
+import { findAnimatedNodeKey } from './core/animatable';
+import { buildSquirclePathWorklet } from './core/squircleWorklets';
+import { useMeasuredFrame } from './useMeasuredFrame';
+import { useSvgIds } from './useSvgIds';
+
+const REANIMATED_MISSING_ERROR =
+  'ExpoSquircle: "AnimatedSquircle" requires the optional "react-native-reanimated" package to be installed.';
+
+const INVALID_PARAMS_ERROR =
+  'ExpoSquircle: "squircleParams" must be an object containing a "smoothFactor" value.';
+
+const ANIMATED_NODE_ERROR =
+  'ExpoSquircle: "AnimatedSquircle" does not support React Native "Animated" values. Pass a Reanimated shared value instead.';
+
+let AnimatedPath: ReturnType<typeof createAnimatedPath> | null = null;
+
+/**
+ * Renders a squircle background whose outline is rebuilt on the UI thread whenever
+ * one of its shared values changes, without re-rendering the component.
+ *
+ * The border is always drawn inside the outline. Gradients, shadows and the other
+ * static-only options are available on `ExpoSquircle`. React Native `Animated`
+ * values cannot be read on the UI thread and are rejected.
+ *
+ * @param squircleParams Plain values or shared values for the animatable options.
+ * @param children Optional React children to render inside the rounded view.
+ * @param style Optional style applied to the outer view.
+ * @param onLayout Layout callback forwarded from React Native.
+ * @param rest View props spread onto the outer wrapper.
+ * @returns React.ReactElement React element describing the wrapped view tree.
+ * @throws Error when `squircleParams` is missing or holds a React Native `Animated`
+ * value, or when Reanimated is not installed.
+ */
+const AnimatedSquircle: React.FC<AnimatedSquircleProps> = ({
+  squircleParams,
+  children,
+  style,
+  onLayout,
+  ...rest
+}) => {
+  if (
+    !squircleParams ||
+    typeof squircleParams !== 'object' ||
+    squircleParams.smoothFactor === undefined
+  ) {
+    throw new Error(INVALID_PARAMS_ERROR);
+  }
+  const animatedNodeKey = findAnimatedNodeKey(squircleParams);
+  if (animatedNodeKey) {
+    throw new Error(
+      `${ANIMATED_NODE_ERROR} Received one for "${animatedNodeKey}".`,
+    );
+  }
+
+  const Reanimated = requireReanimated();
+  const Animated = getAnimatedPath(Reanimated);
+  const { frame, handleLayout } = useMeasuredFrame(onLayout);
+  const clipPathId = useSvgIds().clipPath;
+
+  const width = frame?.width ?? 0;
+  const height = frame?.height ?? 0;
+  const {
+    baseRadius,
+    topLeftRadius,
+    topRightRadius,
+    bottomRightRadius,
+    bottomLeftRadius,
+    smoothFactor,
+    surfaceColor,
+    borderColor,
+    borderWidth,
+    curve,
+    superellipseExponent,
+  } = squircleParams;
+
+  const buildPath = () => {
+    'worklet';
+    return buildSquirclePathWorklet({
+      width,
+      height,
+      cornerRadius: readAnimatable(baseRadius, 0),
+      topLeftCornerRadius: readAnimatable(topLeftRadius, undefined),
+      topRightCornerRadius: readAnimatable(topRightRadius, undefined),
+      bottomRightCornerRadius: readAnimatable(bottomRightRadius, undefined),
+      bottomLeftCornerRadius: readAnimatable(bottomLeftRadius, undefined),
+      cornerSmoothing: Math.min(
+        1,
+        Math.max(0, readAnimatable(smoothFactor, 0)),
+      ),
+      curve,
+      superellipseExponent,
+    });
+  };
+  const dependencies = [width, height, squircleParams];
+
+  const fillProps = Reanimated.useAnimatedProps(
+    () => ({
+      d: buildPath(),
+      fill: readAnimatable(surfaceColor, '#000'),
+    }),
+    dependencies,
+  );
+
+  const clipProps = Reanimated.useAnimatedProps(
+    () => ({ d: buildPath() }),
+    dependencies,
+  );
+
+  const strokeProps = Reanimated.useAnimatedProps(() => {
+    const strokeWidth = Math.max(0, readAnimatable(borderWidth, 0));
+    return {
+      d: buildPath(),
+      stroke: readAnimatable(borderColor, '#000'),
+      strokeWidth: strokeWidth * 2,
+      strokeOpacity: strokeWidth > 0 ? 1 : 0,
+    };
+  }, dependencies);
+
+  return (
+    <View {...rest} style={style} onLayout={handleLayout}>
+      <View pointerEvents='none' style={StyleSheet.absoluteFill}>
+        {frame ? (
+          <Svg
+            width='100%'
+            height='100%'
+            viewBox={`0 0 ${frame.width} ${frame.height}`}
+          >
+            <Defs>
+              <ClipPath id={clipPathId}>
+                <Animated animatedProps={clipProps} />
+              </ClipPath>
+            </Defs>
+            <Animated animatedProps={fillProps} />
+            <Animated
+              animatedProps={strokeProps}
+              fill='none'
+              clipPath={`url(#${clipPathId})`}
+            />
+          </Svg>
+        ) : null}
+      </View>
+      {children}
+    </View>
+  );
+};
+
+/**
+ * Reads a plain or shared value on either thread.
+ *
+ * @param value Plain value, shared value or undefined.
+ * @param fallback Value returned when nothing was provided.
+ * @returns T Current value.
+ */
+function readAnimatable<T, F>(
+  value: SquircleAnimatableValue<T> | undefined,
+  fallback: F,
+): T | F {
+  'worklet';
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  if (typeof value === 'object' && 'value' in value) {
+    return value.value;
+  }
+  return value;
+}
+
+/**
+ * Loads the optional Reanimated package on demand so apps that only render static
+ * squircles do not need to install it.
+ *
+ * @returns typeof ReanimatedModule Reanimated module namespace.
+ * @throws Error when the package is not installed.
+ */
+function requireReanimated(): typeof ReanimatedModule {
+  try {
+    return require('react-native-reanimated');
+  } catch {
+    throw new Error(REANIMATED_MISSING_ERROR);
+  }
+}
+
+/**
+ * Creates the animated SVG path component once and reuses it for every instance.
+ *
+ * @param Reanimated Reanimated module namespace.
+ * @returns Animated path component.
+ */
+function getAnimatedPath(Reanimated: typeof ReanimatedModule) {
+  if (!AnimatedPath) {
+    AnimatedPath = createAnimatedPath(Reanimated);
+  }
+  return AnimatedPath;
+}
+
+function createAnimatedPath(Reanimated: typeof ReanimatedModule) {
+  return Reanimated.default.createAnimatedComponent(Path);
+}
+
+export default AnimatedSquircle;
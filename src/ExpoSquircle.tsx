@@ -9,154 +9,151 @@
  * @author Doğu Abaris <abaris@null.net>
  */
 
-import React, { useCallback, useMemo, useRef, useState } from 'react';
-import { LayoutChangeEvent, StyleSheet, View } from 'react-native';
-import Svg, { ClipPath, Defs, Path } from 'react-native-svg';
+import type MaskedViewComponent from '@react-native-masked-view/masked-view';
+import React, { useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
 
 import type { SquircleComponentProps } from './ExpoSquircle.types';
-import { normalizeSquircleParams } from './core/params';
-import { buildSquirclePath } from './core/squircleMath';
-import type { NormalizedRoundedSurfaceOptions } from './core/types';
-
-type MeasuredFrame = { width: number; height: number };
-
-type SquircleBackdropProps = {
-  frame: MeasuredFrame | null;
-  params: NormalizedRoundedSurfaceOptions;
-};
-
-type SquircleGeometry = {
-  width: number;
-  height: number;
-  path: string;
-  strokeCommandWidth: number;
-};
+import { SquircleBackdrop } from './SquircleBackdrop';
+import {
+  SquircleSurfaceContext,
+  useSquircleSurfaceValue,
+} from './SquircleSurface';
+import { computeSquircleGeometry } from './core/geometry';
+import { getSquircleGeometry } from './core/outline';
+import { getStyleFrame, splitContentStyle } from './core/style';
+import { useMeasuredFrame } from './useMeasuredFrame';
+import { useShapeHitTest } from './useShapeHitTest';
+import { useSquircleStyleParams } from './useSquircleStyleParams';
+
+const MASKED_VIEW_MISSING_ERROR =
+  'ExpoSquircle: "clipContent" requires the optional "@react-native-masked-view/masked-view" package to be installed.';
 
 /**
  * Renders the Squircle View component that draws the smooth background behind its children.
  *
  * @param squircleParams Squircle drawing options.
+ * @param variant Theme preset merged underneath `squircleParams`.
+ * @param clipContent Masks the children to the squircle outline when true. Shadows,
+ * outer borders and other layers that bleed past the outline stay unmasked.
+ * @param hitTestMode Whether touches are tested against the frame or the squircle outline.
+ * @param adoptStyle Moves background, border and radius keys from `style` into the params.
+ * @param initialSize Size drawn before layout when `style` has no numeric width and height.
  * @param children Optional React children to render inside the rounded view.
  * @param style Optional style applied to the outer view.
  * @param onLayout Layout callback forwarded from React Native.
  * @param rest View props spread onto the outer wrapper.
  * @returns React.ReactElement React element describing the wrapped view tree.
- * @throws Error when `squircleParams` or its `smoothFactor` value are missing or invalid.
+ * @throws Error when `squircleParams` or its `smoothFactor` value are missing or invalid,
+ * when `variant` names an unregistered preset,
+ * or when `clipContent` is used without the masked view package.
  */
 const ExpoSquircle: React.FC<SquircleComponentProps> = ({
   squircleParams,
+  variant,
+  clipContent = false,
+  hitTestMode = 'bounds',
+  adoptStyle = false,
+  initialSize,
   children,
-  style,
+  style: styleProp,
   onLayout,
   ...rest
 }) => {
-  const [frame, setFrame] = useState<MeasuredFrame | null>(null);
-  const normalizedParams = useMemo(
-    () => normalizeSquircleParams(squircleParams),
-    [squircleParams],
+  const { style, params: normalizedParams } = useSquircleStyleParams(
+    squircleParams,
+    variant,
+    adoptStyle,
+    styleProp,
   );
-
-  const handleLayout = useCallback(
-    (event: LayoutChangeEvent) => {
-      const { width, height } = event.nativeEvent.layout;
-      setFrame((prev) =>
-        prev && prev.width === width && prev.height === height
-          ? prev
-          : { width, height },
-      );
-
-      onLayout?.(event);
-    },
-    [onLayout],
+  const predictedFrame = useMemo(
+    () => getStyleFrame(StyleSheet.flatten(style)) ?? initialSize ?? null,
+    [style, initialSize],
   );
-
-  return (
-    <View {...rest} style={style} onLayout={handleLayout}>
-      <SquircleBackdrop frame={frame} params={normalizedParams} />
-      {children}
-    </View>
+  const clipStyles = useMemo(
+    () => (clipContent ? splitContentStyle(StyleSheet.flatten(style)) : null),
+    [clipContent, style],
   );
-};
+  const { frame, handleLayout } = useMeasuredFrame(onLayout, predictedFrame);
+  const surface = useSquircleSurfaceValue(style, normalizedParams, frame);
 
-const SquircleBackdrop: React.FC<SquircleBackdropProps> = ({
-  frame,
-  params,
-}) => {
+  const needsOutline = clipContent || hitTestMode === 'shape';
   const geometry = useMemo(
-    () => computeSquircleGeometry(frame, params),
-    [frame, params],
+    () =>
+      needsOutline ? computeSquircleGeometry(frame, normalizedParams) : null,
+    [needsOutline, frame, normalizedParams],
   );
-  const clipPathIdRef = useRef<string | null>(null);
-
-  if (!geometry) {
-    return <View pointerEvents='none' style={StyleSheet.absoluteFill} />;
-  }
+  const clipPath = clipContent ? geometry?.path ?? null : null;
+  const hitGeometry = useMemo(
+    () =>
+      hitTestMode === 'shape' && geometry
+        ? getSquircleGeometry(geometry.pathInput)
+        : null,
+    [hitTestMode, geometry],
+  );
+  const hitTestProps = useShapeHitTest(hitGeometry);
+  const hitTestTarget = hitTestProps ? (
+    <View {...hitTestProps} style={StyleSheet.absoluteFill} />
+  ) : null;
 
-  const { width, height, path, strokeCommandWidth } = geometry;
-  const hasStroke = strokeCommandWidth > 0;
+  const content = (
+    <SquircleSurfaceContext.Provider value={surface}>
+      {children}
+    </SquircleSurfaceContext.Provider>
+  );
 
-  if (hasStroke && !clipPathIdRef.current) {
-    clipPathIdRef.current = createClipPathId();
+  if (clipContent) {
+    const MaskedView = requireMaskedView();
+
+    return (
+      <View {...rest} style={clipStyles?.frame} onLayout={handleLayout}>
+        {hitTestTarget}
+        <SquircleBackdrop frame={frame} params={normalizedParams} />
+        <MaskedView
+          style={clipStyles?.content}
+          maskElement={
+            <View pointerEvents='none' style={StyleSheet.absoluteFill}>
+              {frame && clipPath ? (
+                <Svg
+                  width='100%'
+                  height='100%'
+                  viewBox={`0 0 ${frame.width} ${frame.height}`}
+                >
+                  <Path d={clipPath} fill='#000' />
+                </Svg>
+              ) : null}
+            </View>
+          }
+        >
+          {content}
+        </MaskedView>
+      </View>
+    );
   }
 
-  const clipPathId = clipPathIdRef.current;
-
   return (
-    <View pointerEvents='none' style={StyleSheet.absoluteFill}>
-      <Svg width='100%' height='100%' viewBox={`0 0 ${width} ${height}`}>
-        {hasStroke && clipPathId ? (
-          <Defs>
-            <ClipPath id={clipPathId}>
-              <Path d={path} />
-            </ClipPath>
-          </Defs>
-        ) : null}
-        <Path d={path} fill={params.surfaceColor} />
-        {hasStroke && clipPathId ? (
-          <Path
-            d={path}
-            stroke={params.borderColor}
-            strokeWidth={strokeCommandWidth}
-            clipPath={`url(#${clipPathId})`}
-            fill='none'
-          />
-        ) : null}
-      </Svg>
+    <View {...rest} style={style} onLayout={handleLayout}>
+      {hitTestTarget}
+      <SquircleBackdrop frame={frame} params={normalizedParams} />
+      {content}
     </View>
   );
 };
 
-function computeSquircleGeometry(
-  frame: MeasuredFrame | null,
-  params: NormalizedRoundedSurfaceOptions,
-): SquircleGeometry | null {
-  if (!frame || frame.width <= 0 || frame.height <= 0) {
-    return null;
+/**
+ * Loads the optional masked view package on demand so apps that never clip their
+ * content do not need to install it.
+ *
+ * @returns MaskedView component.
+ * @throws Error when the package is not installed.
+ */
+function requireMaskedView(): typeof MaskedViewComponent {
+  try {
+    return require('@react-native-masked-view/masked-view').default;
+  } catch {
+    throw new Error(MASKED_VIEW_MISSING_ERROR);
   }
-
-  return {
-    width: frame.width,
-    height: frame.height,
-    path: buildSquirclePath({
-      width: frame.width,
-      height: frame.height,
-      cornerRadius: params.baseRadius,
-      topLeftCornerRadius: params.topLeftRadius,
-      topRightCornerRadius: params.topRightRadius,
-      bottomRightCornerRadius: params.bottomRightRadius,
-      bottomLeftCornerRadius: params.bottomLeftRadius,
-      cornerSmoothing: params.smoothFactor,
-    }),
-    strokeCommandWidth:
-      params.borderWidth > 0 ? params.borderWidth * 2 : params.borderWidth,
-  };
-}
-
-let clipPathCounter = 0;
-
-function createClipPathId() {
-  clipPathCounter += 1;
-  return `expoSquircleClip_${clipPathCounter}`;
 }
 
 export default ExpoSquircle;
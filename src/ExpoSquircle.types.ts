@@ -3,32 +3,653 @@
  * @description Shared type definitions for the Expo Squircle component.
  *
  * Exports
+ *   - SquirclePoint
+ *   - SquircleGradientStop
+ *   - SquircleLinearGradient
+ *   - SquircleRadialGradient
+ *   - SquircleGradient
+ *   - SquirclePaint
+ *   - SquircleShadow
+ *   - SquircleColorScheme
+ *   - SquircleSchemeValue
+ *   - SquircleThemedPaint
+ *   - SquircleThemedColor
+ *   - SquircleBorderAlignment
+ *   - SquircleBorderStyle
+ *   - SquircleBorderSide
+ *   - SquircleRadius
+ *   - SquircleCurve
+ *   - SquircleBlendMode
+ *   - SquircleLayer
+ *   - SquircleSurfaceImage
+ *   - SquirclePattern
  *   - RoundedSurfaceOptions
+ *   - SquirclePresets
+ *   - SquircleThemeProviderProps
+ *   - SquircleParamsSource
+ *   - SquircleHitTestMode
  *   - RoundedSurfaceProps
  *   - SquircleComponentProps
+ *   - SquircleImageResizeMode
+ *   - SquircleImageProps
+ *   - SquircleAnimatableValue
+ *   - SquirclePressableState
+ *   - SquircleStateParams
+ *   - SquircleRippleOptions
+ *   - SquircleFocusRingOptions
+ *   - SquirclePressableProps
+ *   - AnimatedRoundedSurfaceOptions
+ *   - AnimatedSquircleProps
+ *   - SquirclePathInput
+ *   - BezierPatch
+ *   - SquircleCornerName
+ *   - SquircleCornerGeometry
+ *   - SquircleSegment
+ *   - SquircleCubicSegment
+ *   - SquircleGeometry
+ *   - SquircleCacheOptions
+ *   - SquircleCacheCounters
+ *   - SquircleCacheStats
+ *   - SquircleSize
+ *   - SquircleOffset
+ *   - SquircleSVGOptions
+ *   - SquircleFigmaColor
+ *   - SquircleFigmaPaint
+ *   - SquircleFigmaEffect
+ *   - SquircleFigmaNode
+ *   - SquircleFigmaIssue
+ *   - SquircleFigmaImport
  *
  * @license MIT. Copyright (c) Doğu Abaris.
  */
 
 import type { PropsWithChildren } from 'react';
-import type { ColorValue, ViewProps } from 'react-native';
+import type {
+  ColorValue,
+  ImageSourcePropType,
+  PressableProps,
+  StyleProp,
+  ViewProps,
+  ViewStyle,
+} from 'react-native';
+
+/**
+ * Point expressed as fractions of the squircle frame (0 = left/top, 1 = right/bottom).
+ */
+export type SquirclePoint = { x: number; y: number };
+
+export interface SquircleGradientStop {
+  offset: number;
+  color: ColorValue;
+  opacity?: number;
+}
+
+/**
+ * Linear gradient that either follows a CSS-style `angle` (degrees, 0 = bottom to top)
+ * or runs between explicit `start` and `end` points.
+ */
+export interface SquircleLinearGradient {
+  type: 'linear';
+  stops: SquircleGradientStop[];
+  angle?: number;
+  start?: SquirclePoint;
+  end?: SquirclePoint;
+}
+
+/**
+ * Circular gradient whose `radius` is a fraction of the distance between `center`
+ * and the farthest corner of the frame.
+ */
+export interface SquircleRadialGradient {
+  type: 'radial';
+  stops: SquircleGradientStop[];
+  center?: SquirclePoint;
+  radius?: number;
+}
+
+export type SquircleGradient = SquircleLinearGradient | SquircleRadialGradient;
+
+export type SquirclePaint = ColorValue | SquircleGradient;
+
+/**
+ * Shadow layer that follows the squircle outline. `spread` grows or shrinks the shape
+ * itself (radii included) before it is blurred; inset shadows shrink it by `spread`.
+ */
+export interface SquircleShadow {
+  offsetX?: number;
+  offsetY?: number;
+  blurRadius?: number;
+  spread?: number;
+  color?: ColorValue;
+  opacity?: number;
+}
+
+export type SquircleColorScheme = 'light' | 'dark';
+
+/**
+ * Value that differs between the light and dark color schemes.
+ */
+export type SquircleSchemeValue<T> = { light: T; dark: T };
+
+export type SquircleThemedPaint =
+  | SquirclePaint
+  | SquircleSchemeValue<SquirclePaint>;
+
+export type SquircleThemedColor = ColorValue | SquircleSchemeValue<ColorValue>;
+
+/**
+ * Where the border sits relative to the squircle outline, matching Figma's stroke align.
+ */
+export type SquircleBorderAlignment = 'inside' | 'center' | 'outside';
+
+export type SquircleBorderStyle = 'solid' | 'dashed' | 'dotted';
+
+export type SquircleBorderSide = 'top' | 'right' | 'bottom' | 'left';
+
+/**
+ * Corner radius in logical pixels, as a percentage of the frame's shorter side
+ * (`'25%'`), or `'capsule'` for half of the shorter side.
+ */
+export type SquircleRadius = number | `${number}%` | 'capsule';
+
+/**
+ * Shape of the corners. `'figma'` is Figma's smoothed corner driven by
+ * `smoothFactor`, `'circular'` a plain arc, `'superellipse'` a Lamé curve with
+ * `superellipseExponent`, and `'apple-continuous'` the corner of Apple's
+ * `continuous` corner curve.
+ */
+export type SquircleCurve =
+  | 'figma'
+  | 'superellipse'
+  | 'apple-continuous'
+  | 'circular';
+
+/**
+ * How a layer is composited over the layers beneath it, following CSS
+ * `mix-blend-mode`.
+ */
+export type SquircleBlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+/**
+ * Fill and stroke painted by `layers`. The layer outline is the squircle moved
+ * inward by `inset`, or outward when it is negative, with concentric corners. The
+ * stroke is a band of `strokeWidth` just inside that outline.
+ */
+export interface SquircleLayer {
+  fill?: SquircleThemedPaint;
+  stroke?: SquircleThemedPaint;
+  /** Width in logical pixels, or `'hairline'` for `StyleSheet.hairlineWidth`. Defaults to 1. */
+  strokeWidth?: number | 'hairline';
+  /** Defaults to 1. */
+  opacity?: number;
+  /** Defaults to `'normal'`. */
+  blendMode?: SquircleBlendMode;
+  /** Defaults to 0. */
+  inset?: number;
+}
+
+/**
+ * Image painted over the surface fill, bounded by the squircle outline. With
+ * `tileSize`, the image repeats in tiles of that size, each fitted with `resizeMode`.
+ */
+export interface SquircleSurfaceImage {
+  source: ImageSourcePropType;
+  /** Defaults to `'cover'`. */
+  resizeMode?: SquircleImageResizeMode;
+  tileSize?: SquircleSize;
+  /** Defaults to 1. */
+  opacity?: number;
+}
+
+/**
+ * Repeating pattern painted over the surface fill, bounded by the squircle outline.
+ * `path` is SVG path data drawn in every `width` by `height` tile.
+ */
+export interface SquirclePattern {
+  path: string;
+  width: number;
+  height: number;
+  /** Defaults to `'#000'`. */
+  color?: SquircleThemedColor;
+  /** Defaults to 1. */
+  opacity?: number;
+  /** Rotation of the tiles in degrees. Defaults to 0. */
+  angle?: number;
+}
 
 export interface RoundedSurfaceOptions {
-  baseRadius?: number;
+  baseRadius?: SquircleRadius;
+  topLeftRadius?: SquircleRadius;
+  topRightRadius?: SquircleRadius;
+  bottomRightRadius?: SquircleRadius;
+  bottomLeftRadius?: SquircleRadius;
+  smoothFactor: number;
+  topLeftSmoothFactor?: number;
+  topRightSmoothFactor?: number;
+  bottomRightSmoothFactor?: number;
+  bottomLeftSmoothFactor?: number;
+  /** Defaults to `'figma'`. Smoothing only applies to the `'figma'` curve. */
+  curve?: SquircleCurve;
+  /** Exponent `n` of `|x|^n + |y|^n = 1` for the `'superellipse'` curve, at least 2. Defaults to 4. */
+  superellipseExponent?: number;
+  /**
+   * Keeps the requested smoothing when a corner runs out of room, flattening the
+   * bezier handles instead of reducing the smoothing.
+   */
+  preserveSmoothing?: boolean;
+  /**
+   * Aligns the frame, border widths and canvas to device pixels and rounds path
+   * coordinates to a matching precision, so thin borders render crisply.
+   */
+  pixelSnapping?: boolean;
+  surfaceColor?: SquircleThemedPaint;
+  surfaceImage?: SquircleSurfaceImage;
+  surfacePattern?: SquirclePattern;
+  borderColor?: SquircleThemedPaint;
+  /** Width in logical pixels, or `'hairline'` for `StyleSheet.hairlineWidth`. */
+  borderWidth?: number | 'hairline';
+  borderAlignment?: SquircleBorderAlignment;
+  borderStyle?: SquircleBorderStyle;
+  borderDashLength?: number;
+  borderGapLength?: number;
+  /**
+   * Per-side border widths and colors. Sides without a value inherit `borderWidth`
+   * and `borderColor`; joins between sides taper like CSS borders. Setting any of
+   * them draws solid borders only.
+   */
+  borderTopWidth?: number;
+  borderRightWidth?: number;
+  borderBottomWidth?: number;
+  borderLeftWidth?: number;
+  borderTopColor?: SquircleThemedColor;
+  borderRightColor?: SquircleThemedColor;
+  borderBottomColor?: SquircleThemedColor;
+  borderLeftColor?: SquircleThemedColor;
+  shadows?: SquircleShadow[];
+  insetShadows?: SquircleShadow[];
+  /**
+   * Fills and strokes painted in order over the shared outline. Replaces
+   * `surfaceColor` and the border, which form the default layers otherwise.
+   */
+  layers?: SquircleLayer[];
+}
+
+/**
+ * Named option sets registered through `SquircleThemeProvider`.
+ */
+export type SquirclePresets = Record<string, Partial<RoundedSurfaceOptions>>;
+
+export type SquircleThemeProviderProps = PropsWithChildren<{
+  presets?: SquirclePresets;
+  /** Overrides the scheme reported by `useColorScheme()`. */
+  colorScheme?: SquircleColorScheme;
+}>;
+
+/**
+ * Either complete `squircleParams`, or a theme `variant` with optional local params
+ * merged over its preset.
+ */
+export type SquircleParamsSource =
+  | { squircleParams: RoundedSurfaceOptions; variant?: string }
+  | { variant: string; squircleParams?: Partial<RoundedSurfaceOptions> };
+
+/**
+ * `'bounds'` hit-tests touches against the rectangular frame, `'shape'` against the
+ * squircle outline.
+ */
+export type SquircleHitTestMode = 'bounds' | 'shape';
+
+export type RoundedSurfaceProps = ViewProps &
+  SquircleParamsSource & {
+    /**
+     * Masks the children to the squircle outline. Shadows and borders drawn past
+     * the outline stay unmasked. Requires the optional
+     * `@react-native-masked-view/masked-view` package.
+     */
+    clipContent?: boolean;
+    /**
+     * Drops touches that start outside the squircle outline when set to `'shape'`.
+     * Touches that land on a child are left to that child.
+     */
+    hitTestMode?: SquircleHitTestMode;
+    /**
+     * Moves `backgroundColor`, the border width, color and radius keys (shared and
+     * per side) from `style` into the squircle params instead of drawing them natively.
+     * Values in `squircleParams` still take precedence.
+     */
+    adoptStyle?: boolean;
+    /**
+     * Size used to draw the first frame before layout. Numeric `width` and `height`
+     * in `style` are used automatically; layout still corrects a wrong guess.
+     */
+    initialSize?: SquircleSize;
+  };
+
+export type SquircleComponentProps = PropsWithChildren<RoundedSurfaceProps>;
+
+export type SquircleImageResizeMode = 'cover' | 'contain' | 'stretch';
+
+export type SquircleImageProps = PropsWithChildren<ViewProps> &
+  SquircleParamsSource & {
+    source: ImageSourcePropType;
+    resizeMode?: SquircleImageResizeMode;
+  };
+
+/**
+ * Interaction states of `SquirclePressable`. When several apply at once, `disabled`
+ * wins over `pressed`, `pressed` over `focused` and `focused` over `hovered`.
+ */
+export type SquirclePressableState =
+  | 'pressed'
+  | 'hovered'
+  | 'focused'
+  | 'disabled';
+
+/**
+ * Options merged over the base `squircleParams` while a state is active. Drop
+ * shadows always come from the base params.
+ */
+export type SquircleStateParams = Partial<
+  Record<SquirclePressableState, Partial<RoundedSurfaceOptions>>
+>;
+
+export interface SquircleRippleOptions {
+  color?: ColorValue;
+  opacity?: number;
+  /** Duration in milliseconds of the ripple expanding and fading out. */
+  duration?: number;
+}
+
+/**
+ * Ring drawn just outside the squircle outline while the pressable has focus.
+ */
+export interface SquircleFocusRingOptions {
+  color?: ColorValue;
+  width?: number;
+}
+
+export type SquirclePressableProps = Omit<PressableProps, 'style'> &
+  SquircleParamsSource & {
+    stateParams?: SquircleStateParams;
+    /** Cross-fade duration in milliseconds between states. Defaults to 0 (instant). */
+    transitionDuration?: number;
+    /**
+     * Scale applied while pressed, animated with `transitionDuration`. It is
+     * appended after any `transform` in `style`.
+     */
+    pressedScale?: number;
+    ripple?: boolean | SquircleRippleOptions;
+    focusRing?: boolean | SquircleFocusRingOptions;
+    style?: StyleProp<ViewStyle>;
+  };
+
+/**
+ * Plain value or anything exposing it through `.value`, such as a Reanimated shared value.
+ * React Native `Animated.Value` is not supported.
+ */
+export type SquircleAnimatableValue<T> = T | { readonly value: T };
+
+/**
+ * Subset of the surface options that can be driven from the UI thread. Colors must be
+ * plain color strings so Reanimated can interpolate them.
+ */
+export interface AnimatedRoundedSurfaceOptions {
+  baseRadius?: SquircleAnimatableValue<number>;
+  topLeftRadius?: SquircleAnimatableValue<number>;
+  topRightRadius?: SquircleAnimatableValue<number>;
+  bottomRightRadius?: SquircleAnimatableValue<number>;
+  bottomLeftRadius?: SquircleAnimatableValue<number>;
+  smoothFactor: SquircleAnimatableValue<number>;
+  surfaceColor?: SquircleAnimatableValue<string>;
+  borderColor?: SquircleAnimatableValue<string>;
+  borderWidth?: SquircleAnimatableValue<number>;
+  curve?: SquircleCurve;
+  superellipseExponent?: number;
+}
+
+export interface AnimatedSquircleProps extends PropsWithChildren<ViewProps> {
+  squircleParams: AnimatedRoundedSurfaceOptions;
+}
+
+/**
+ * Raw geometry inputs shared by the path builders and `getSquircleGeometry`.
+ * Per-corner radii fall back to `cornerRadius` and per-corner smoothing to
+ * `cornerSmoothing`.
+ */
+export type SquirclePathInput = {
+  cornerRadius?: number;
+  topLeftCornerRadius?: number;
+  topRightCornerRadius?: number;
+  bottomRightCornerRadius?: number;
+  bottomLeftCornerRadius?: number;
+  cornerSmoothing: number;
+  topLeftCornerSmoothing?: number;
+  topRightCornerSmoothing?: number;
+  bottomRightCornerSmoothing?: number;
+  bottomLeftCornerSmoothing?: number;
+  width: number;
+  height: number;
+  preserveSmoothing?: boolean;
+  curve?: SquircleCurve;
+  superellipseExponent?: number;
+  /** Decimal places of the corner coordinates emitted by `buildSquirclePath`. Defaults to 4. */
+  precision?: number;
+};
+
+/**
+ * Distances that describe one smoothed corner, measured from the point where the
+ * corner leaves the straight edge: `p` is the total length the corner consumes on
+ * each edge, `a`, `b` and `c` place the bezier handles, `d` is the offset toward the
+ * neighbouring edge where the circular arc starts, and `arcSectionLength` is the
+ * per-axis extent of that arc.
+ */
+export type BezierPatch = {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  p: number;
+  cornerRadius: number;
+  arcSectionLength: number;
+};
+
+export type SquircleCornerName =
+  | 'topLeft'
+  | 'topRight'
+  | 'bottomRight'
+  | 'bottomLeft';
+
+export interface SquircleCornerGeometry {
+  /** Radius after clamping against the frame and the neighbouring corners. */
+  radius: number;
+  /**
+   * Figma corner patch. Cubic-only curves (`'superellipse'`, `'apple-continuous'`)
+   * only set `p` and `cornerRadius`.
+   */
+  patch: BezierPatch;
+}
+
+/**
+ * Absolute-coordinate path segment. Arcs always sweep clockwise by less than 180°.
+ */
+export type SquircleSegment =
+  | { type: 'move'; x: number; y: number }
+  | { type: 'line'; x: number; y: number }
+  | {
+      type: 'cubic';
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      x: number;
+      y: number;
+    }
+  | { type: 'arc'; radius: number; x: number; y: number }
+  | { type: 'close' };
+
+export type SquircleCubicSegment = Extract<
+  SquircleSegment,
+  { type: 'move' | 'cubic' | 'close' }
+>;
+
+/**
+ * Structured outline of a squircle, starting at the top edge and running clockwise.
+ * Every corner contributes a curve, an arc and a curve (zero-length for square
+ * corners), so outlines built from different inputs always line up segment by segment.
+ */
+export interface SquircleGeometry {
+  width: number;
+  height: number;
+  corners: Record<SquircleCornerName, SquircleCornerGeometry>;
+  segments: SquircleSegment[];
+  /** The same outline with edges and arcs expressed as cubic beziers. */
+  cubicSegments: SquircleCubicSegment[];
+}
+
+/**
+ * Entry limits for the path caches. A limit of 0 turns that cache off.
+ */
+export type SquircleCacheOptions = {
+  /** Complete path strings, keyed by size, radii and smoothing. Defaults to 160. */
+  pathLimit?: number;
+  /** Bezier patches of individual corners. Defaults to 512. */
+  profileLimit?: number;
+};
+
+export type SquircleCacheCounters = {
+  size: number;
+  limit: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+};
+
+export type SquircleCacheStats = {
+  paths: SquircleCacheCounters;
+  profiles: SquircleCacheCounters;
+};
+
+export type SquircleSize = { width: number; height: number };
+
+/**
+ * Squircle moved parallel to another one. `x` and `y` place its frame relative to
+ * the original frame; the path starts at its own origin.
+ */
+export type SquircleOffset = {
+  input: SquirclePathInput;
+  path: string;
+  x: number;
+  y: number;
+};
+
+export type SquircleSVGOptions = SquircleSize & {
+  /** Scheme used to resolve `{ light, dark }` colors. Defaults to `'light'`. */
+  colorScheme?: SquircleColorScheme;
+  /** Prefix for clip path and gradient ids, unique per inlined document. */
+  idPrefix?: string;
+};
+
+/**
+ * RGBA color with 0-1 channels, as used by the Figma REST and plugin APIs.
+ */
+export type SquircleFigmaColor = {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;
+};
+
+/**
+ * Paint entry of a Figma `fills` or `strokes` array. Gradients carry either REST
+ * `gradientHandlePositions` or a plugin `gradientTransform`.
+ */
+export type SquircleFigmaPaint = {
+  type: string;
+  visible?: boolean;
+  opacity?: number;
+  blendMode?: string;
+  color?: SquircleFigmaColor;
+  gradientStops?: { position: number; color: SquircleFigmaColor }[];
+  gradientHandlePositions?: { x: number; y: number }[];
+  gradientTransform?: number[][];
+};
+
+export type SquircleFigmaEffect = {
+  type: string;
+  visible?: boolean;
+  color?: SquircleFigmaColor;
+  offset?: { x: number; y: number };
+  radius?: number;
+  spread?: number;
+  blendMode?: string;
+};
+
+/**
+ * Subset of a Figma rectangle or frame node read by `fromFigmaNode`. Both REST
+ * (`rectangleCornerRadii`, `individualStrokeWeights`, `strokeDashes`) and plugin
+ * (`topLeftRadius`, `strokeTopWeight`, `dashPattern`) property names are accepted.
+ */
+export type SquircleFigmaNode = {
+  type?: string;
+  name?: string;
+  width?: number;
+  height?: number;
+  size?: { x: number; y: number };
+  absoluteBoundingBox?: { width: number; height: number };
+  cornerRadius?: number;
+  rectangleCornerRadii?: number[];
   topLeftRadius?: number;
   topRightRadius?: number;
   bottomRightRadius?: number;
   bottomLeftRadius?: number;
-  smoothFactor: number;
-  surfaceColor?: ColorValue;
-  borderColor?: ColorValue;
-  borderWidth?: number;
-}
+  cornerSmoothing?: number;
+  fills?: SquircleFigmaPaint[];
+  strokes?: SquircleFigmaPaint[];
+  strokeWeight?: number;
+  individualStrokeWeights?: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  };
+  strokeTopWeight?: number;
+  strokeRightWeight?: number;
+  strokeBottomWeight?: number;
+  strokeLeftWeight?: number;
+  strokeAlign?: string;
+  strokeDashes?: number[];
+  dashPattern?: number[];
+  effects?: SquircleFigmaEffect[];
+  [property: string]: unknown;
+};
 
-export interface RoundedSurfaceProps extends ViewProps {
-  squircleParams: RoundedSurfaceOptions;
-}
+/**
+ * Node property that could not be converted. `property` is a path into the node,
+ * such as `fills[1]` or `effects[0].blendMode`.
+ */
+export type SquircleFigmaIssue = { property: string; reason: string };
 
-export type SquircleComponentProps = PropsWithChildren<RoundedSurfaceProps>;
+export type SquircleFigmaImport = {
+  options: RoundedSurfaceOptions;
+  /** Node size, when the node records one. */
+  size?: SquircleSize;
+  unsupported: SquircleFigmaIssue[];
+};
 
 export type ExpoSquircleModuleEvents = Record<string, never>;
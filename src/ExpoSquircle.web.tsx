@@ -1 +1,156 @@
-export { default } from './ExpoSquircle';
+/**
+ * @file packages/expo-squircle/src/ExpoSquircle.web.tsx
+ * @description Web implementation of the Expo Squircle component that clips a CSS background with the squircle path.
+ *
+ * Exports
+ *   - default (ExpoSquircle)
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import React, { useMemo, useRef } from 'react';
+import type { ViewStyle } from 'react-native';
+import { StyleSheet, View } from 'react-native';
+
+import type { SquircleComponentProps } from './ExpoSquircle.types';
+import { SquircleBackdrop } from './SquircleBackdrop';
+import {
+  SquircleSurfaceContext,
+  useSquircleSurfaceValue,
+} from './SquircleSurface';
+import { computeSquircleGeometry } from './core/geometry';
+import { getSquircleGeometry } from './core/outline';
+import { getStyleFrame, splitContentStyle } from './core/style';
+import {
+  canPaintSurfaceWithCss,
+  hasSquircleBorder,
+  toCssClipPath,
+} from './core/web';
+import { useObservedFrame } from './useObservedFrame';
+import { useShapeHitTest } from './useShapeHitTest';
+import { useSquircleStyleParams } from './useSquircleStyleParams';
+
+/**
+ * Renders the Squircle View component on the web. Solid fills are painted as a CSS
+ * background clipped with `clip-path: path()`, and `clipContent` clips a view
+ * around the children the same way, so neither needs an SVG or a masked view.
+ * Borders, gradients and shadows fall back to the SVG backdrop. The size is read
+ * before paint and followed with a `ResizeObserver`; until then only a predicted
+ * size is drawn, which keeps server-rendered markup deterministic.
+ *
+ * @param squircleParams Squircle drawing options.
+ * @param variant Theme preset merged underneath `squircleParams`.
+ * @param clipContent Clips the children to the squircle outline when true. Shadows,
+ * outer borders and other layers that bleed past the outline stay unclipped.
+ * @param hitTestMode Whether touches are tested against the frame or the squircle outline.
+ * @param adoptStyle Moves background, border and radius keys from `style` into the params.
+ * @param initialSize Size drawn before layout when `style` has no numeric width and height.
+ * @param children Optional React children to render inside the rounded view.
+ * @param style Optional style applied to the outer view.
+ * @param rest View props spread onto the outer wrapper.
+ * @returns React.ReactElement React element describing the wrapped view tree.
+ * @throws Error when `squircleParams` or its `smoothFactor` value are missing or invalid,
+ * or when `variant` names an unregistered preset.
+ */
+const ExpoSquircle: React.FC<SquircleComponentProps> = ({
+  squircleParams,
+  variant,
+  clipContent = false,
+  hitTestMode = 'bounds',
+  adoptStyle = false,
+  initialSize,
+  children,
+  style: styleProp,
+  ...rest
+}) => {
+  const hostRef = useRef<View>(null);
+  const { style, params } = useSquircleStyleParams(
+    squircleParams,
+    variant,
+    adoptStyle,
+    styleProp,
+  );
+  const predictedFrame = useMemo(
+    () => getStyleFrame(StyleSheet.flatten(style)) ?? initialSize ?? null,
+    [style, initialSize],
+  );
+  const clipStyles = useMemo(
+    () => (clipContent ? splitContentStyle(StyleSheet.flatten(style)) : null),
+    [clipContent, style],
+  );
+  const frame = useObservedFrame(hostRef, predictedFrame);
+  const surface = useSquircleSurfaceValue(style, params, frame);
+  const geometry = useMemo(
+    () => computeSquircleGeometry(frame, params),
+    [frame, params],
+  );
+  const hitGeometry = useMemo(
+    () =>
+      hitTestMode === 'shape' && geometry
+        ? getSquircleGeometry(geometry.pathInput)
+        : null,
+    [hitTestMode, geometry],
+  );
+  const hitTestProps = useShapeHitTest(hitGeometry);
+  const cssSurface = canPaintSurfaceWithCss(params);
+  const backdropParams = useMemo(
+    () =>
+      cssSurface
+        ? {
+            ...params,
+            layers: params.layers.filter((layer) => layer.type === 'border'),
+          }
+        : params,
+    [cssSurface, params],
+  );
+
+  const content = (
+    <SquircleSurfaceContext.Provider value={surface}>
+      {children}
+    </SquircleSurfaceContext.Provider>
+  );
+
+  return (
+    <View {...rest} ref={hostRef} style={clipStyles?.frame ?? style}>
+      {hitTestProps ? (
+        <View {...hitTestProps} style={StyleSheet.absoluteFill} />
+      ) : null}
+      {geometry && cssSurface ? (
+        <View
+          pointerEvents='none'
+          style={[
+            StyleSheet.absoluteFill,
+            { backgroundColor: params.surfaceColor as string },
+            clipStyle(geometry.path),
+          ]}
+        />
+      ) : null}
+      {geometry && (!cssSurface || hasSquircleBorder(geometry)) ? (
+        <SquircleBackdrop frame={frame} params={backdropParams} />
+      ) : null}
+      {clipStyles ? (
+        <View
+          style={[
+            clipStyles.content,
+            geometry ? clipStyle(geometry.path) : null,
+          ]}
+        >
+          {content}
+        </View>
+      ) : (
+        content
+      )}
+    </View>
+  );
+};
+
+/**
+ * Style that clips an element to the squircle. React Native's style types do not
+ * know `clipPath`, while React Native Web forwards it to the DOM unchanged.
+ */
+function clipStyle(path: string) {
+  return { clipPath: toCssClipPath(path) } as ViewStyle;
+}
+
+export default ExpoSquircle;
@@ -0,0 +1,672 @@
+/**
+ * @file packages/expo-squircle/src/SquircleBackdrop.tsx
+ * @description SVG backdrop that paints the squircle layers, shadows and border behind a component's content.
+ *
+ * Exports
+ *   - SquircleBackdrop
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import React, { useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+import Svg, {
+  ClipPath,
+  Defs,
+  FeGaussianBlur,
+  Filter,
+  G,
+  GProps,
+  Image as SvgImage,
+  LinearGradient,
+  Mask,
+  Path,
+  Pattern,
+  RadialGradient,
+  Stop,
+} from 'react-native-svg';
+
+import type { SquircleBlendMode } from './ExpoSquircle.types';
+import { BORDER_SIDES } from './core/borders';
+import { computeSquircleGeometry } from './core/geometry';
+import {
+  isSquircleGradient,
+  resolveLinearGradient,
+  resolveRadialGradient,
+} from './core/paint';
+import {
+  blurRadiusToDeviation,
+  computeInsetShadowGeometry,
+  computeShadowOutset,
+  spreadSquirclePathInput,
+} from './core/shadows';
+import { buildSquirclePath } from './core/squircleMath';
+import { PRESERVE_ASPECT_RATIO, resolveImageTile } from './core/surfaceFills';
+import type {
+  MeasuredFrame,
+  NormalizedPaintLayer,
+  NormalizedRoundedSurfaceOptions,
+  NormalizedSquircleGradient,
+  NormalizedSquirclePaint,
+  NormalizedSquirclePattern,
+  NormalizedSquircleShadow,
+  NormalizedSurfaceImage,
+  SquircleLayerGeometry,
+  SquircleRenderGeometry,
+} from './core/types';
+import { useSvgIds } from './useSvgIds';
+
+type SquircleBackdropProps = {
+  frame: MeasuredFrame | null;
+  params: NormalizedRoundedSurfaceOptions;
+  renderSurfaceContent?: (geometry: SquircleRenderGeometry) => React.ReactNode;
+};
+
+type SquircleShadowsProps = {
+  geometry: SquircleRenderGeometry;
+  params: NormalizedRoundedSurfaceOptions;
+};
+
+/**
+ * Paints the squircle described by `params` over the measured frame. Renders an
+ * empty placeholder until the frame is known. Layers are painted in order, the
+ * default ones being the surface fill and the border. The surface image and pattern,
+ * `renderSurfaceContent` and inset shadows are drawn right above the first layer,
+ * bounded by the squircle.
+ */
+export const SquircleBackdrop: React.FC<SquircleBackdropProps> = ({
+  frame,
+  params,
+  renderSurfaceContent,
+}) => {
+  const geometry = useMemo(
+    () => computeSquircleGeometry(frame, params),
+    [frame, params],
+  );
+  const svgIds = useSvgIds();
+
+  if (!geometry) {
+    return <View pointerEvents='none' style={StyleSheet.absoluteFill} />;
+  }
+
+  const {
+    width,
+    height,
+    path,
+    strokeCommandWidth,
+    borderOutset,
+    strokePath,
+    strokeOffset,
+    strokeClip,
+    strokeDashArray,
+    strokeLineCap,
+    sideBorders,
+  } = geometry;
+  const hasStroke = strokeCommandWidth > 0;
+  const hasInsetShadows = params.insetShadows.length > 0;
+  const hasSurfaceContent = Boolean(renderSurfaceContent);
+  const canvasWidth = width + borderOutset * 2;
+  const canvasHeight = height + borderOutset * 2;
+
+  const clipPathId =
+    (hasStroke && strokeClip !== 'none') ||
+    sideBorders ||
+    hasInsetShadows ||
+    hasSurfaceContent
+      ? svgIds.clipPath
+      : null;
+
+  const hasLayerGradients = params.layers.some(
+    (layer) =>
+      layer.type === 'paint' &&
+      ((layer.fill !== null && isSquircleGradient(layer.fill)) ||
+        (layer.stroke !== null && isSquircleGradient(layer.stroke))),
+  );
+  const borderGradient =
+    (hasStroke || sideBorders) && isSquircleGradient(params.borderColor)
+      ? params.borderColor
+      : null;
+
+  const { surfaceImage, surfacePattern } = params;
+  const strokeGradientId = `${svgIds.gradient}_stroke`;
+  const imagePatternId = `${svgIds.pattern}_image`;
+  const fillPatternId = `${svgIds.pattern}_fill`;
+  const hasDefs = Boolean(
+    clipPathId ||
+      hasLayerGradients ||
+      borderGradient ||
+      surfaceImage ||
+      surfacePattern,
+  );
+  const outsideClipPathId = `${clipPathId}_outside`;
+  const strokeClipPathId =
+    strokeClip === 'inside'
+      ? clipPathId
+      : strokeClip === 'outside'
+      ? outsideClipPathId
+      : null;
+
+  const surfaceOverlay = (
+    <>
+      {surfaceImage ? (
+        <Path
+          d={path}
+          fill={`url(#${imagePatternId})`}
+          fillOpacity={surfaceImage.opacity}
+        />
+      ) : null}
+      {surfacePattern ? (
+        <Path
+          d={path}
+          fill={`url(#${fillPatternId})`}
+          fillOpacity={surfacePattern.opacity}
+        />
+      ) : null}
+      {renderSurfaceContent && clipPathId ? (
+        <G clipPath={`url(#${clipPathId})`}>{renderSurfaceContent(geometry)}</G>
+      ) : null}
+      {hasInsetShadows && clipPathId
+        ? renderInsetShadows(
+            geometry,
+            params.insetShadows,
+            clipPathId,
+            svgIds.shadow,
+          )
+        : null}
+    </>
+  );
+
+  const border = (
+    <>
+      {hasStroke ? (
+        <Path
+          d={strokePath}
+          transform={
+            strokeOffset
+              ? `translate(${strokeOffset} ${strokeOffset})`
+              : undefined
+          }
+          stroke={resolvePaint(params.borderColor, strokeGradientId)}
+          strokeWidth={strokeCommandWidth}
+          strokeDasharray={strokeDashArray}
+          strokeLinecap={strokeLineCap}
+          clipPath={strokeClipPathId ? `url(#${strokeClipPathId})` : undefined}
+          fill='none'
+        />
+      ) : null}
+      {sideBorders
+        ? BORDER_SIDES.map((side) => {
+            const sideBorder = params.borderSides?.[side];
+            return sideBorder && sideBorder.width > 0 ? (
+              <Path
+                key={side}
+                d={sideBorders.bandPath}
+                fillRule='evenodd'
+                fill={resolvePaint(sideBorder.color, strokeGradientId)}
+                clipPath={`url(#${clipPathId}_${side})`}
+              />
+            ) : null;
+          })
+        : null}
+    </>
+  );
+
+  return (
+    <>
+      {params.shadows.length > 0 ? (
+        <SquircleShadows geometry={geometry} params={params} />
+      ) : null}
+      <View
+        pointerEvents='none'
+        style={
+          borderOutset > 0
+            ? {
+                position: 'absolute',
+                left: -borderOutset,
+                top: -borderOutset,
+                width: canvasWidth,
+                height: canvasHeight,
+              }
+            : StyleSheet.absoluteFill
+        }
+      >
+        <Svg
+          width='100%'
+          height='100%'
+          viewBox={`${-borderOutset} ${-borderOutset} ${canvasWidth} ${canvasHeight}`}
+        >
+          {hasDefs ? (
+            <Defs>
+              {clipPathId ? (
+                <ClipPath id={clipPathId}>
+                  <Path d={path} />
+                </ClipPath>
+              ) : null}
+              {hasStroke && strokeClip === 'outside' ? (
+                <ClipPath id={outsideClipPathId}>
+                  <Path
+                    d={`M ${-borderOutset} ${-borderOutset} h ${canvasWidth} v ${canvasHeight} h ${-canvasWidth} Z ${path}`}
+                    clipRule='evenodd'
+                  />
+                </ClipPath>
+              ) : null}
+              {sideBorders
+                ? BORDER_SIDES.map((side) => (
+                    <ClipPath key={side} id={`${clipPathId}_${side}`}>
+                      <Path d={sideBorders.regions[side]} />
+                    </ClipPath>
+                  ))
+                : null}
+              {hasLayerGradients
+                ? params.layers.map((layer, index) =>
+                    layer.type === 'paint'
+                      ? renderLayerGradients(
+                          layer,
+                          `${svgIds.gradient}_${index}`,
+                          width,
+                          height,
+                        )
+                      : null,
+                  )
+                : null}
+              {surfaceImage
+                ? renderImagePattern(
+                    surfaceImage,
+                    imagePatternId,
+                    width,
+                    height,
+                  )
+                : null}
+              {surfacePattern
+                ? renderPattern(surfacePattern, fillPatternId)
+                : null}
+              {borderGradient
+                ? renderGradient(
+                    borderGradient,
+                    strokeGradientId,
+                    width,
+                    height,
+                  )
+                : null}
+            </Defs>
+          ) : null}
+          {params.layers.length === 0 ? surfaceOverlay : null}
+          {params.layers.map((layer, index) => (
+            <React.Fragment key={index}>
+              {layer.type === 'border'
+                ? border
+                : renderPaintLayer(
+                    layer,
+                    geometry.layers[index],
+                    `${svgIds.gradient}_${index}`,
+                  )}
+              {index === 0 ? surfaceOverlay : null}
+            </React.Fragment>
+          ))}
+        </Svg>
+      </View>
+    </>
+  );
+};
+
+/**
+ * Draws drop shadows shaped like the squircle. The SVG overflows the measured frame
+ * by the shadow outset so blurred edges are not cut off, while the wrapper layout
+ * stays untouched. Shadows are masked out underneath the shape itself so translucent
+ * surfaces do not reveal them.
+ */
+const SquircleShadows: React.FC<SquircleShadowsProps> = ({
+  geometry,
+  params,
+}) => {
+  const shadowId = useSvgIds().shadow;
+  const { width, height, path, pathInput } = geometry;
+  const outset = computeShadowOutset(params.shadows);
+  const canvasWidth = width + outset * 2;
+  const canvasHeight = height + outset * 2;
+  const cutoutPath = `M ${-outset} ${-outset} h ${canvasWidth} v ${canvasHeight} h ${-canvasWidth} Z ${path}`;
+
+  const layers = params.shadows.map((shadow, index) => {
+    const spreadInput = spreadSquirclePathInput(pathInput, shadow.spread);
+    if (!spreadInput) {
+      return null;
+    }
+
+    const filterId = `${shadowId}_blur_${index}`;
+    const hasBlur = shadow.blurRadius > 0;
+    const translateX = shadow.offsetX - shadow.spread;
+    const translateY = shadow.offsetY - shadow.spread;
+
+    return (
+      <React.Fragment key={index}>
+        {hasBlur ? (
+          <Defs>
+            <Filter
+              id={filterId}
+              filterUnits='userSpaceOnUse'
+              x={-outset - translateX}
+              y={-outset - translateY}
+              width={canvasWidth}
+              height={canvasHeight}
+            >
+              <FeGaussianBlur
+                stdDeviation={blurRadiusToDeviation(shadow.blurRadius)}
+              />
+            </Filter>
+          </Defs>
+        ) : null}
+        <Path
+          d={buildSquirclePath(spreadInput)}
+          transform={`translate(${translateX} ${translateY})`}
+          fill={shadow.color}
+          fillOpacity={shadow.opacity}
+          filter={hasBlur ? `url(#${filterId})` : undefined}
+        />
+      </React.Fragment>
+    );
+  });
+
+  return (
+    <View
+      pointerEvents='none'
+      style={{
+        position: 'absolute',
+        left: -outset,
+        top: -outset,
+        width: canvasWidth,
+        height: canvasHeight,
+      }}
+    >
+      <Svg
+        width='100%'
+        height='100%'
+        viewBox={`${-outset} ${-outset} ${canvasWidth} ${canvasHeight}`}
+      >
+        <Defs>
+          <Mask
+            id={`${shadowId}_cutout`}
+            maskUnits='userSpaceOnUse'
+            x={-outset}
+            y={-outset}
+            width={canvasWidth}
+            height={canvasHeight}
+          >
+            <Path d={cutoutPath} fill='#fff' fillRule='evenodd' />
+          </Mask>
+        </Defs>
+        <G mask={`url(#${shadowId}_cutout)`}>{layers}</G>
+      </Svg>
+    </View>
+  );
+};
+
+/**
+ * Renders inset shadows inside the squircle. Each layer paints the area outside a
+ * shrunken, offset copy of the shape, blurs it, and the whole group is clipped by the
+ * same clip path the border uses so the shadow hugs the smoothed corners.
+ *
+ * @param geometry Geometry of the rendered surface.
+ * @param shadows Normalized inset shadow layers.
+ * @param clipPathId Id of the squircle clip path.
+ * @param shadowId Id prefix for the blur filters.
+ * @returns React.ReactElement Clipped group containing every inset layer.
+ */
+function renderInsetShadows(
+  geometry: SquircleRenderGeometry,
+  shadows: NormalizedSquircleShadow[],
+  clipPathId: string,
+  shadowId: string,
+) {
+  const outset = computeShadowOutset(shadows);
+
+  const layers = shadows.map((shadow, index) => {
+    const filterId = `${shadowId}_inset_${index}`;
+    const hasBlur = shadow.blurRadius > 0;
+    const { path, translateX, translateY, region } = computeInsetShadowGeometry(
+      geometry.pathInput,
+      shadow,
+      outset,
+    );
+
+    return (
+      <React.Fragment key={index}>
+        {hasBlur ? (
+          <Defs>
+            <Filter
+              id={filterId}
+              filterUnits='userSpaceOnUse'
+              x={region.x}
+              y={region.y}
+              width={region.width}
+              height={region.height}
+            >
+              <FeGaussianBlur
+                stdDeviation={blurRadiusToDeviation(shadow.blurRadius)}
+              />
+            </Filter>
+          </Defs>
+        ) : null}
+        <Path
+          d={path}
+          transform={`translate(${translateX} ${translateY})`}
+          fill={shadow.color}
+          fillOpacity={shadow.opacity}
+          fillRule='evenodd'
+          filter={hasBlur ? `url(#${filterId})` : undefined}
+        />
+      </React.Fragment>
+    );
+  });
+
+  return <G clipPath={`url(#${clipPathId})`}>{layers}</G>;
+}
+
+/**
+ * Renders the fill and stroke of a paint layer, grouped when the layer has its own
+ * opacity or blend mode.
+ *
+ * @param layer Normalized paint layer.
+ * @param layerGeometry Paths of the layer.
+ * @param gradientId Id prefix of the layer's gradient definitions.
+ * @returns React.ReactElement | null Layer content, or null when it collapsed.
+ */
+function renderPaintLayer(
+  layer: NormalizedPaintLayer,
+  layerGeometry: SquircleLayerGeometry | null,
+  gradientId: string,
+) {
+  if (!layerGeometry) {
+    return null;
+  }
+
+  const { fillPath, strokePath } = layerGeometry;
+  const content = (
+    <>
+      {fillPath && layer.fill !== null ? (
+        <Path
+          d={fillPath}
+          fill={resolvePaint(layer.fill, `${gradientId}_fill`)}
+        />
+      ) : null}
+      {strokePath && layer.stroke !== null ? (
+        <Path
+          d={strokePath}
+          fillRule='evenodd'
+          fill={resolvePaint(layer.stroke, `${gradientId}_stroke`)}
+        />
+      ) : null}
+    </>
+  );
+
+  if (layer.opacity === 1 && layer.blendMode === 'normal') {
+    return content;
+  }
+
+  return (
+    <G opacity={layer.opacity} {...blendModeProps(layer.blendMode)}>
+      {content}
+    </G>
+  );
+}
+
+/**
+ * Renders the gradient definitions of a paint layer.
+ *
+ * @param layer Normalized paint layer.
+ * @param gradientId Id prefix of the layer's gradient definitions.
+ * @param width Frame width.
+ * @param height Frame height.
+ * @returns React.ReactElement Fragment placed inside `Defs`.
+ */
+function renderLayerGradients(
+  layer: NormalizedPaintLayer,
+  gradientId: string,
+  width: number,
+  height: number,
+) {
+  return (
+    <React.Fragment key={gradientId}>
+      {layer.fill !== null && isSquircleGradient(layer.fill)
+        ? renderGradient(layer.fill, `${gradientId}_fill`, width, height)
+        : null}
+      {layer.stroke !== null && isSquircleGradient(layer.stroke)
+        ? renderGradient(layer.stroke, `${gradientId}_stroke`, width, height)
+        : null}
+    </React.Fragment>
+  );
+}
+
+/**
+ * Props that set the CSS blend mode of a layer group. React Native SVG forwards
+ * `style` to the DOM on the web; native renderers have no blend modes and composite
+ * the layer normally.
+ */
+function blendModeProps(blendMode: SquircleBlendMode) {
+  return blendMode === 'normal'
+    ? {}
+    : ({ style: { mixBlendMode: blendMode } } as GProps);
+}
+
+/**
+ * Renders the pattern a surface image is painted with: one tile fitted to the frame,
+ * or repeated tiles of the image's own tile size.
+ *
+ * @param image Normalized surface image.
+ * @param id Definition id referenced by the painted path.
+ * @param width Frame width.
+ * @param height Frame height.
+ * @returns React.ReactElement Pattern element placed inside `Defs`.
+ */
+function renderImagePattern(
+  image: NormalizedSurfaceImage,
+  id: string,
+  width: number,
+  height: number,
+) {
+  const tile = resolveImageTile(image, { width, height });
+  return (
+    <Pattern
+      id={id}
+      patternUnits='userSpaceOnUse'
+      width={tile.width}
+      height={tile.height}
+    >
+      <SvgImage
+        href={image.source}
+        x={0}
+        y={0}
+        width={tile.width}
+        height={tile.height}
+        preserveAspectRatio={PRESERVE_ASPECT_RATIO[image.resizeMode]}
+      />
+    </Pattern>
+  );
+}
+
+/**
+ * Renders the definition of a repeating pattern.
+ *
+ * @param pattern Normalized pattern.
+ * @param id Definition id referenced by the painted path.
+ * @returns React.ReactElement Pattern element placed inside `Defs`.
+ */
+function renderPattern(pattern: NormalizedSquirclePattern, id: string) {
+  return (
+    <Pattern
+      id={id}
+      patternUnits='userSpaceOnUse'
+      width={pattern.width}
+      height={pattern.height}
+      patternTransform={pattern.angle ? `rotate(${pattern.angle})` : undefined}
+    >
+      <Path d={pattern.path} fill={pattern.color} />
+    </Pattern>
+  );
+}
+
+/**
+ * Renders the SVG gradient definition for a normalized gradient paint. Coordinates are
+ * resolved in user space so angles behave like CSS on non-square frames.
+ *
+ * @param gradient Normalized gradient descriptor.
+ * @param id Definition id referenced by the painted path.
+ * @param width Frame width.
+ * @param height Frame height.
+ * @returns React.ReactElement Gradient element placed inside `Defs`.
+ */
+function renderGradient(
+  gradient: NormalizedSquircleGradient,
+  id: string,
+  width: number,
+  height: number,
+) {
+  const stops = gradient.stops.map((stop, index) => (
+    <Stop
+      key={index}
+      offset={stop.offset}
+      stopColor={stop.color}
+      stopOpacity={stop.opacity}
+    />
+  ));
+
+  if (gradient.type === 'radial') {
+    const { cx, cy, r } = resolveRadialGradient(gradient, width, height);
+    return (
+      <RadialGradient
+        id={id}
+        cx={cx}
+        cy={cy}
+        r={r}
+        gradientUnits='userSpaceOnUse'
+      >
+        {stops}
+      </RadialGradient>
+    );
+  }
+
+  const { x1, y1, x2, y2 } = resolveLinearGradient(gradient, width, height);
+  return (
+    <LinearGradient
+      id={id}
+      x1={x1}
+      y1={y1}
+      x2={x2}
+      y2={y2}
+      gradientUnits='userSpaceOnUse'
+    >
+      {stops}
+    </LinearGradient>
+  );
+}
+
+/**
+ * Maps a normalized paint onto an SVG paint value.
+ *
+ * @param paint Plain color or gradient descriptor.
+ * @param gradientId Definition id used when the paint is a gradient.
+ * @returns NormalizedSquirclePaint Color value or `url(#id)` reference.
+ */
+function resolvePaint(paint: NormalizedSquirclePaint, gradientId: string) {
+  return isSquircleGradient(paint) ? `url(#${gradientId})` : paint;
+}
@@ -0,0 +1,89 @@
+/**
+ * @file packages/expo-squircle/src/SquircleImage.tsx
+ * @description Image component clipped to the squircle outline with an optional border drawn on top.
+ *
+ * Exports
+ *   - default (SquircleImage)
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import React, { useCallback, useMemo } from 'react';
+import { View } from 'react-native';
+import { Image as SvgImage } from 'react-native-svg';
+
+import type { SquircleImageProps } from './ExpoSquircle.types';
+import { SquircleBackdrop } from './SquircleBackdrop';
+import { useSquircleParamsContext } from './SquircleTheme';
+import { normalizeSquircleParams } from './core/params';
+import { PRESERVE_ASPECT_RATIO } from './core/surfaceFills';
+import type { SquircleRenderGeometry } from './core/types';
+import { useMeasuredFrame } from './useMeasuredFrame';
+
+/**
+ * Renders an image clipped to the squircle shape. The image sits between the
+ * surface fill (transparent unless `surfaceColor` is set) and the border, so
+ * borders and inset shadows are drawn on top of it.
+ *
+ * @param source Image source, as accepted by React Native's `Image`.
+ * @param squircleParams Squircle drawing options.
+ * @param variant Theme preset merged underneath `squircleParams`.
+ * @param resizeMode How the image fits the frame; defaults to `cover`.
+ * @param children Optional content rendered above the image.
+ * @param style Optional style applied to the outer view.
+ * @param onLayout Layout callback forwarded from React Native.
+ * @param rest View props spread onto the outer wrapper.
+ * @returns React.ReactElement React element describing the wrapped view tree.
+ * @throws Error when `squircleParams` or its `smoothFactor` value are missing or invalid.
+ */
+const SquircleImage: React.FC<SquircleImageProps> = ({
+  source,
+  squircleParams,
+  variant,
+  resizeMode = 'cover',
+  children,
+  style,
+  onLayout,
+  ...rest
+}) => {
+  const { frame, handleLayout } = useMeasuredFrame(onLayout);
+  const paramsContext = useSquircleParamsContext(variant);
+  const normalizedParams = useMemo(
+    () =>
+      normalizeSquircleParams(squircleParams, {
+        ...paramsContext,
+        preset: { surfaceColor: 'transparent', ...paramsContext.preset },
+      }),
+    [squircleParams, paramsContext],
+  );
+
+  const renderImage = useCallback(
+    ({ width, height }: SquircleRenderGeometry) => (
+      <SvgImage
+        href={source}
+        x={0}
+        y={0}
+        width={width}
+        height={height}
+        preserveAspectRatio={
+          PRESERVE_ASPECT_RATIO[resizeMode] ?? PRESERVE_ASPECT_RATIO.cover
+        }
+      />
+    ),
+    [source, resizeMode],
+  );
+
+  return (
+    <View {...rest} style={style} onLayout={handleLayout}>
+      <SquircleBackdrop
+        frame={frame}
+        params={normalizedParams}
+        renderSurfaceContent={renderImage}
+      />
+      {children}
+    </View>
+  );
+};
+
+export default SquircleImage;
@@ -0,0 +1,90 @@
+/**
+ * @file packages/expo-squircle/src/SquircleNest.tsx
+ * @description Squircle that hands concentric shape options to the squircles inside its padding.
+ *
+ * Exports
+ *   - SquircleNest
+ *   - useConcentricSquircle
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import React, { createContext, useContext, useMemo } from 'react';
+import { I18nManager, StyleSheet } from 'react-native';
+
+import ExpoSquircle from './ExpoSquircle';
+import type {
+  RoundedSurfaceOptions,
+  SquircleComponentProps,
+} from './ExpoSquircle.types';
+import { useSquircleSurface } from './SquircleSurface';
+import { concentricSquircleOptions } from './core/concentric';
+import { resolveSquirclePathInput } from './core/geometry';
+import { getStylePadding } from './core/style';
+
+const NEST_MISSING_ERROR =
+  'ExpoSquircle: "useConcentricSquircle" must be called inside a SquircleNest.';
+
+const SquircleNestContext = createContext<RoundedSurfaceOptions | null>(null);
+
+/**
+ * Renders an `ExpoSquircle` and shares the shape of a squircle that fills its
+ * padded area, so nested surfaces stay concentric with it. Accepts every
+ * `ExpoSquircle` prop; the padding is read from numeric `padding*` keys in `style`.
+ * The params and frame are the ones the `ExpoSquircle` resolved itself.
+ *
+ * @param props ExpoSquircle props of the outer surface.
+ * @returns React.ReactElement ExpoSquircle wrapped around the nest context.
+ * @throws Error when the params are invalid or the variant is not registered.
+ */
+export const SquircleNest: React.FC<SquircleComponentProps> = ({
+  children,
+  ...props
+}) => (
+  <ExpoSquircle {...props}>
+    <SquircleNestProvider>{children}</SquircleNestProvider>
+  </ExpoSquircle>
+);
+
+/**
+ * Derives the concentric options from the surface of the enclosing `ExpoSquircle`.
+ */
+const SquircleNestProvider: React.FC<React.PropsWithChildren> = ({
+  children,
+}) => {
+  const surface = useSquircleSurface();
+  const innerOptions = useMemo(() => {
+    if (!surface) {
+      return null;
+    }
+    const { style, params, frame } = surface;
+    return concentricSquircleOptions(
+      params,
+      frame ? resolveSquirclePathInput(frame, params) : null,
+      getStylePadding(StyleSheet.flatten(style), I18nManager.isRTL),
+    );
+  }, [surface]);
+
+  return (
+    <SquircleNestContext.Provider value={innerOptions}>
+      {children}
+    </SquircleNestContext.Provider>
+  );
+};
+
+/**
+ * Returns the radii, smoothing and curve of a squircle that fills the padded area
+ * of the closest `SquircleNest`. Merge colors and borders over them; the result can
+ * also be passed to another `SquircleNest` to nest further.
+ *
+ * @returns RoundedSurfaceOptions Shape options for the inner squircle.
+ * @throws Error when called outside a `SquircleNest`.
+ */
+export function useConcentricSquircle(): RoundedSurfaceOptions {
+  const options = useContext(SquircleNestContext);
+  if (!options) {
+    throw new Error(NEST_MISSING_ERROR);
+  }
+  return options;
+}
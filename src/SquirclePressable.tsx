@@ -0,0 +1,357 @@
+/**
+ * @file packages/expo-squircle/src/SquirclePressable.tsx
+ * @description Pressable squircle with per-state options, cross-fades, a ripple and a focus ring.
+ *
+ * Exports
+ *   - default (SquirclePressable)
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import type { GestureResponderEvent } from 'react-native';
+import { Animated, Pressable, StyleSheet } from 'react-native';
+import { Circle } from 'react-native-svg';
+
+import type {
+  SquircleFocusRingOptions,
+  SquirclePressableProps,
+  SquirclePressableState,
+  SquircleRippleOptions,
+} from './ExpoSquircle.types';
+import { SquircleBackdrop } from './SquircleBackdrop';
+import { useSquircleParamsContext } from './SquircleTheme';
+import { normalizeSquircleParams } from './core/params';
+import {
+  appendScaleTransform,
+  normalizeShadowLayer,
+  normalizeStateLayers,
+  resolveActiveState,
+  resolveLayerOpacities,
+  resolveOptions,
+} from './core/pressable';
+import { useMeasuredFrame } from './useMeasuredFrame';
+
+const DEFAULT_RIPPLE: Required<SquircleRippleOptions> = {
+  color: '#000',
+  opacity: 0.12,
+  duration: 300,
+};
+
+const DEFAULT_FOCUS_RING: Required<SquircleFocusRingOptions> = {
+  color: '#2563EB',
+  width: 2,
+};
+
+const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+const AnimatedCircle = Animated.createAnimatedComponent(Circle);
+
+type RippleOrigin = { x: number; y: number; radius: number };
+
+/**
+ * Renders a pressable squircle. The idle look and every state that has overrides in
+ * `stateParams` are normalized once and painted as their own layers, so switching
+ * states only cross-fades layer opacity instead of rebuilding params and paths on
+ * every press. Drop shadows sit on a layer of their own that is always shown.
+ *
+ * @param squircleParams Squircle drawing options for the idle state.
+ * @param variant Theme preset merged underneath `squircleParams`.
+ * @param stateParams Overrides merged over `squircleParams` per interaction state.
+ * @param transitionDuration Cross-fade duration between states, in milliseconds.
+ * @param pressedScale Scale applied while pressed.
+ * @param ripple Draws a ripple clipped to the squircle from the touch point.
+ * @param focusRing Draws a ring outside the squircle while focused.
+ * @param children Content or render function receiving the pressable state.
+ * @param style Optional style applied to the pressable.
+ * @param rest Pressable props forwarded to React Native.
+ * @returns React.ReactElement React element describing the pressable tree.
+ * @throws Error when `squircleParams` or any state override is invalid.
+ */
+const SquirclePressable: React.FC<SquirclePressableProps> = ({
+  squircleParams,
+  variant,
+  stateParams,
+  transitionDuration = 0,
+  pressedScale = 1,
+  ripple = false,
+  focusRing = false,
+  disabled,
+  children,
+  style,
+  onLayout,
+  onPressIn,
+  onPressOut,
+  onHoverIn,
+  onHoverOut,
+  onFocus,
+  onBlur,
+  ...rest
+}) => {
+  const { frame, handleLayout } = useMeasuredFrame(onLayout);
+  const paramsContext = useSquircleParamsContext(variant);
+  const [pressed, setPressed] = useState(false);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const isDisabled = Boolean(disabled);
+
+  const shadowParams = useMemo(
+    () => normalizeShadowLayer(squircleParams, paramsContext),
+    [squircleParams, paramsContext],
+  );
+
+  const idleParams = useMemo(
+    () =>
+      normalizeSquircleParams(
+        { ...squircleParams, shadows: [] },
+        paramsContext,
+      ),
+    [squircleParams, paramsContext],
+  );
+
+  const stateLayers = useMemo(
+    () => normalizeStateLayers(squircleParams, stateParams, paramsContext),
+    [squircleParams, stateParams, paramsContext],
+  );
+
+  const activeState = resolveActiveState(
+    { disabled: isDisabled, pressed, focused, hovered },
+    stateLayers.map(({ state }) => state),
+  );
+
+  const opacities = useRef<
+    Record<SquirclePressableState | 'idle', Animated.Value>
+  >({
+    idle: new Animated.Value(1),
+    hovered: new Animated.Value(0),
+    focused: new Animated.Value(0),
+    pressed: new Animated.Value(0),
+    disabled: new Animated.Value(0),
+  }).current;
+  const scale = useRef(new Animated.Value(1)).current;
+
+  useEffect(() => {
+    const targets = resolveLayerOpacities(activeState);
+    (Object.keys(targets) as (keyof typeof targets)[]).forEach((layer) => {
+      animateTo(opacities[layer], targets[layer], {
+        duration: transitionDuration,
+        useNativeDriver: true,
+      });
+    });
+  }, [activeState, opacities, transitionDuration]);
+
+  useEffect(() => {
+    animateTo(scale, pressed && !isDisabled ? pressedScale : 1, {
+      duration: transitionDuration,
+      useNativeDriver: true,
+    });
+  }, [isDisabled, pressed, pressedScale, scale, transitionDuration]);
+
+  const pressableStyle = useMemo(() => {
+    const flattened = StyleSheet.flatten(style) ?? {};
+    return {
+      ...flattened,
+      transform: appendScaleTransform(flattened.transform, scale),
+    };
+  }, [style, scale]);
+
+  const rippleOptions = useMemo(
+    () => resolveOptions(ripple, DEFAULT_RIPPLE),
+    [ripple],
+  );
+  const focusRingOptions = useMemo(
+    () => resolveOptions(focusRing, DEFAULT_FOCUS_RING),
+    [focusRing],
+  );
+  const [rippleOrigin, setRippleOrigin] = useState<RippleOrigin | null>(null);
+  const rippleProgress = useRef(new Animated.Value(0)).current;
+  const rippleOpacity = useRef(new Animated.Value(0)).current;
+
+  const startRipple = useCallback(
+    (event: GestureResponderEvent) => {
+      if (!rippleOptions || !frame) {
+        return;
+      }
+      const { locationX: x, locationY: y } = event.nativeEvent;
+      setRippleOrigin({
+        x,
+        y,
+        radius: Math.hypot(
+          Math.max(x, frame.width - x),
+          Math.max(y, frame.height - y),
+        ),
+      });
+      rippleProgress.setValue(0);
+      rippleOpacity.setValue(rippleOptions.opacity);
+      Animated.timing(rippleProgress, {
+        toValue: 1,
+        duration: rippleOptions.duration,
+        useNativeDriver: false,
+      }).start();
+    },
+    [frame, rippleOptions, rippleOpacity, rippleProgress],
+  );
+
+  const renderRipple = useCallback(
+    () =>
+      rippleOptions && rippleOrigin ? (
+        <AnimatedCircle
+          cx={rippleOrigin.x}
+          cy={rippleOrigin.y}
+          r={rippleProgress.interpolate({
+            inputRange: [0, 1],
+            outputRange: [0, rippleOrigin.radius],
+          })}
+          fill={rippleOptions.color}
+          fillOpacity={rippleOpacity}
+        />
+      ) : null,
+    [rippleOptions, rippleOrigin, rippleOpacity, rippleProgress],
+  );
+
+  const rippleParams = useMemo(
+    () =>
+      rippleOptions
+        ? normalizeSquircleParams(
+            {
+              ...squircleParams,
+              ...stateParams?.pressed,
+              surfaceColor: 'transparent',
+              borderWidth: 0,
+              shadows: [],
+              insetShadows: [],
+              layers: undefined,
+              surfaceImage: undefined,
+              surfacePattern: undefined,
+            },
+            paramsContext,
+          )
+        : null,
+    [rippleOptions, squircleParams, stateParams, paramsContext],
+  );
+
+  const focusRingParams = useMemo(
+    () =>
+      focusRingOptions
+        ? normalizeSquircleParams(
+            {
+              ...squircleParams,
+              ...stateParams?.focused,
+              surfaceColor: 'transparent',
+              borderColor: focusRingOptions.color,
+              borderWidth: focusRingOptions.width,
+              borderAlignment: 'outside',
+              borderStyle: 'solid',
+              shadows: [],
+              insetShadows: [],
+              layers: undefined,
+              surfaceImage: undefined,
+              surfacePattern: undefined,
+            },
+            paramsContext,
+          )
+        : null,
+    [focusRingOptions, squircleParams, stateParams, paramsContext],
+  );
+
+  return (
+    <AnimatedPressable
+      {...rest}
+      disabled={disabled}
+      style={pressableStyle}
+      onLayout={handleLayout}
+      onPressIn={(event) => {
+        setPressed(true);
+        startRipple(event);
+        onPressIn?.(event);
+      }}
+      onPressOut={(event) => {
+        setPressed(false);
+        if (rippleOptions) {
+          Animated.timing(rippleOpacity, {
+            toValue: 0,
+            duration: rippleOptions.duration,
+            useNativeDriver: false,
+          }).start();
+        }
+        onPressOut?.(event);
+      }}
+      onHoverIn={(event) => {
+        setHovered(true);
+        onHoverIn?.(event);
+      }}
+      onHoverOut={(event) => {
+        setHovered(false);
+        onHoverOut?.(event);
+      }}
+      onFocus={(event) => {
+        setFocused(true);
+        onFocus?.(event);
+      }}
+      onBlur={(event) => {
+        setFocused(false);
+        onBlur?.(event);
+      }}
+    >
+      {(state) => (
+        <>
+          {shadowParams ? (
+            <SquircleBackdrop frame={frame} params={shadowParams} />
+          ) : null}
+          <Animated.View
+            pointerEvents='none'
+            style={[StyleSheet.absoluteFill, { opacity: opacities.idle }]}
+          >
+            <SquircleBackdrop frame={frame} params={idleParams} />
+          </Animated.View>
+          {stateLayers.map((layer) => (
+            <Animated.View
+              key={layer.state}
+              pointerEvents='none'
+              style={[
+                StyleSheet.absoluteFill,
+                { opacity: opacities[layer.state] },
+              ]}
+            >
+              <SquircleBackdrop frame={frame} params={layer.params} />
+            </Animated.View>
+          ))}
+          {rippleParams ? (
+            <SquircleBackdrop
+              frame={frame}
+              params={rippleParams}
+              renderSurfaceContent={renderRipple}
+            />
+          ) : null}
+          {focusRingParams && focused ? (
+            <SquircleBackdrop frame={frame} params={focusRingParams} />
+          ) : null}
+          {typeof children === 'function' ? children(state) : children}
+        </>
+      )}
+    </AnimatedPressable>
+  );
+};
+
+/**
+ * Animates a value, or sets it immediately when the duration is zero.
+ */
+function animateTo(
+  value: Animated.Value,
+  toValue: number,
+  config: Omit<Animated.TimingAnimationConfig, 'toValue'>,
+) {
+  if (!config.duration) {
+    value.setValue(toValue);
+    return;
+  }
+  Animated.timing(value, { ...config, toValue }).start();
+}
+
+export default SquirclePressable;
@@ -0,0 +1,58 @@
+/**
+ * @file packages/expo-squircle/src/SquircleSurface.tsx
+ * @description Context that shares the resolved style, params and frame of a squircle with its children.
+ *
+ * Exports
+ *   - SquircleSurfaceContext
+ *   - useSquircleSurfaceValue
+ *   - useSquircleSurface
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { createContext, useContext, useMemo } from 'react';
+import type { StyleProp, ViewStyle } from 'react-native';
+
+import type {
+  MeasuredFrame,
+  NormalizedRoundedSurfaceOptions,
+} from './core/types';
+
+type SquircleSurface = {
+  style: StyleProp<ViewStyle>;
+  params: NormalizedRoundedSurfaceOptions;
+  frame: MeasuredFrame | null;
+};
+
+/**
+ * Provided by every `ExpoSquircle` around its children, so wrappers such as
+ * `SquircleNest` reuse its normalized params and measured frame instead of
+ * resolving them a second time.
+ */
+export const SquircleSurfaceContext = createContext<SquircleSurface | null>(
+  null,
+);
+
+/**
+ * Memoizes the surface an `ExpoSquircle` shares with its children.
+ *
+ * @param style Style left on the wrapper after adopting style keys.
+ * @param params Normalized squircle options.
+ * @param frame Measured or predicted frame, or null before layout.
+ * @returns SquircleSurface Stable context value.
+ */
+export function useSquircleSurfaceValue(
+  style: StyleProp<ViewStyle>,
+  params: NormalizedRoundedSurfaceOptions,
+  frame: MeasuredFrame | null,
+): SquircleSurface {
+  return useMemo(() => ({ style, params, frame }), [style, params, frame]);
+}
+
+/**
+ * Returns the surface of the closest `ExpoSquircle`, or null outside one.
+ */
+export function useSquircleSurface() {
+  return useContext(SquircleSurfaceContext);
+}
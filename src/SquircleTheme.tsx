@@ -0,0 +1,98 @@
+/**
+ * @file packages/expo-squircle/src/SquircleTheme.tsx
+ * @description Theme provider that registers named squircle presets and the active color scheme.
+ *
+ * Exports
+ *   - SquircleThemeProvider
+ *   - useSquircleParamsContext
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import React, { createContext, useContext, useMemo } from 'react';
+import { PixelRatio, StyleSheet, useColorScheme } from 'react-native';
+
+import type {
+  SquircleColorScheme,
+  SquirclePresets,
+  SquircleThemeProviderProps,
+} from './ExpoSquircle.types';
+import type { SquircleParamsContext } from './core/types';
+
+const UNKNOWN_VARIANT_ERROR =
+  'ExpoSquircle: No preset is registered for the requested "variant". Register it through SquircleThemeProvider.';
+
+type SquircleThemeValue = {
+  presets: SquirclePresets;
+  colorScheme?: SquircleColorScheme;
+};
+
+const EMPTY_PRESETS: SquirclePresets = {};
+
+const SquircleThemeContext = createContext<SquircleThemeValue>({
+  presets: EMPTY_PRESETS,
+});
+
+/**
+ * Registers presets for every squircle below it. Nested providers inherit the
+ * presets of their parents and may replace individual entries.
+ *
+ * @param presets Named option sets selected through the `variant` prop.
+ * @param colorScheme Forces a color scheme instead of following the system.
+ * @param children React children that can use the presets.
+ * @returns React.ReactElement Provider element.
+ */
+export const SquircleThemeProvider: React.FC<SquircleThemeProviderProps> = ({
+  presets,
+  colorScheme,
+  children,
+}) => {
+  const parent = useContext(SquircleThemeContext);
+  const value = useMemo<SquircleThemeValue>(
+    () => ({
+      presets: presets ? { ...parent.presets, ...presets } : parent.presets,
+      colorScheme: colorScheme ?? parent.colorScheme,
+    }),
+    [colorScheme, parent, presets],
+  );
+
+  return (
+    <SquircleThemeContext.Provider value={value}>
+      {children}
+    </SquircleThemeContext.Provider>
+  );
+};
+
+/**
+ * Resolves the preset for a variant, the active color scheme and the display
+ * metrics used for pixel snapping and hairline borders, ready to pass to
+ * `normalizeSquircleParams`.
+ *
+ * @param variant Preset name requested by the component, if any.
+ * @returns SquircleParamsContext Stable context object for memoized normalization.
+ * @throws Error when the variant is not registered.
+ */
+export function useSquircleParamsContext(
+  variant: string | undefined,
+): SquircleParamsContext {
+  const theme = useContext(SquircleThemeContext);
+  const systemScheme = useColorScheme();
+  const colorScheme =
+    theme.colorScheme ?? (systemScheme === 'dark' ? 'dark' : 'light');
+  const preset = variant === undefined ? undefined : theme.presets[variant];
+
+  if (variant !== undefined && !preset) {
+    throw new Error(UNKNOWN_VARIANT_ERROR);
+  }
+
+  return useMemo(
+    () => ({
+      preset,
+      colorScheme,
+      pixelRatio: PixelRatio.get(),
+      hairlineWidth: StyleSheet.hairlineWidth,
+    }),
+    [preset, colorScheme],
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/clipContent.test.tsx
+ * @description Render tests that keep the backdrop out of the `clipContent` mask.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it, jest } from '@jest/globals';
+import React from 'react';
+import type { ReactTestInstance } from 'react-test-renderer';
+import { act, create } from 'react-test-renderer';
+
+import type { RoundedSurfaceOptions } from '../ExpoSquircle.types';
+
+jest.mock('react-native', () => ({
+  View: 'View',
+  I18nManager: { isRTL: false },
+  PixelRatio: { get: () => 2 },
+  StyleSheet: {
+    absoluteFill: { position: 'absolute' },
+    hairlineWidth: 0.5,
+    flatten: (style: unknown): unknown =>
+      Array.isArray(style)
+        ? Object.assign({}, ...style.map((item) => item ?? {}))
+        : style,
+  },
+  useColorScheme: () => 'light',
+}));
+jest.mock('react-native-svg', () => ({
+  __esModule: true,
+  default: 'Svg',
+  Path: 'Path',
+}));
+jest.mock('@react-native-masked-view/masked-view', () => ({
+  __esModule: true,
+  default: 'MaskedView',
+}));
+jest.mock('../SquircleBackdrop', () => ({
+  SquircleBackdrop: 'SquircleBackdrop',
+}));
+
+// react-test-renderer warns about its own deprecation on every render.
+const consoleError = console.error;
+jest.spyOn(console, 'error').mockImplementation((message, ...rest) => {
+  if (!String(message).startsWith('react-test-renderer is deprecated')) {
+    consoleError(message, ...rest);
+  }
+});
+(
+  globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Loaded after the mocks above are registered.
+const { default: ExpoSquircle } = require('../ExpoSquircle');
+const { default: ExpoSquircleWeb } = require('../ExpoSquircle.web');
+
+const BLEEDING_PARAMS: [string, Partial<RoundedSurfaceOptions>][] = [
+  [
+    'drop shadows',
+    { shadows: [{ color: '#000', offsetY: 4, blurRadius: 12, opacity: 0.3 }] },
+  ],
+  ['outside borders', { borderWidth: 4, borderAlignment: 'outside' }],
+];
+
+function render(
+  Component: React.ComponentType<Record<string, unknown>>,
+  params: Partial<RoundedSurfaceOptions>,
+) {
+  let root: ReturnType<typeof create> | undefined;
+  act(() => {
+    root = create(
+      <Component
+        clipContent
+        squircleParams={{ baseRadius: 20, smoothFactor: 0.6, ...params }}
+        style={{ width: 120, height: 80, padding: 12 }}
+      >
+        <Component squircleParams={{ smoothFactor: 0.6 }} testID='child' />
+      </Component>,
+    );
+  });
+  return root!.root;
+}
+
+function isInside(node: ReactTestInstance, ancestor: ReactTestInstance) {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current === ancestor) {
+      return true;
+    }
+  }
+  return false;
+}
+
+describe('clipContent', () => {
+  it.each(BLEEDING_PARAMS)('leaves %s outside the native mask', (_, params) => {
+    const tree = render(ExpoSquircle, params);
+    const mask = tree.findByType('MaskedView' as never);
+    const [backdrop] = tree.findAllByType('SquircleBackdrop' as never);
+
+    expect(backdrop.props.params).toMatchObject(
+      params.shadows ? { shadows: [expect.anything()] } : { borderWidth: 4 },
+    );
+    expect(isInside(backdrop, mask)).toBe(false);
+    expect(isInside(tree.findByProps({ testID: 'child' }), mask)).toBe(true);
+    expect(mask.props.style).toEqual({ flexGrow: 1, padding: 12 });
+  });
+
+  it.each(BLEEDING_PARAMS)(
+    'leaves %s outside the web clip-path',
+    (_, params) => {
+      const tree = render(ExpoSquircleWeb, params);
+      const clipped = tree.findAll(
+        (node) =>
+          node.type === ('View' as never) &&
+          Array.isArray(node.props.style) &&
+          node.props.style.some(
+            (item: { clipPath?: string } | null) => item?.clipPath,
+          ),
+      );
+      const [backdrop] = tree.findAllByType('SquircleBackdrop' as never);
+
+      const child = tree.findByProps({ testID: 'child' });
+
+      expect(clipped.some((node) => isInside(backdrop, node))).toBe(false);
+      expect(clipped.some((node) => isInside(child, node))).toBe(true);
+    },
+  );
+});
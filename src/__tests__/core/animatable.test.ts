@@ -0,0 +1,33 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/animatable.test.ts
+ * @description Unit tests for the AnimatedSquircle option checks.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { findAnimatedNodeKey } from '../../core/animatable';
+
+describe('findAnimatedNodeKey', () => {
+  it('accepts plain values and shared values', () => {
+    expect(
+      findAnimatedNodeKey({
+        baseRadius: 12,
+        smoothFactor: { value: 0.6 },
+        surfaceColor: '#fff',
+      }),
+    ).toBeNull();
+  });
+
+  it('names the first option holding a React Native Animated node', () => {
+    const animatedValue = { _value: 12, __getValue: () => 12 };
+
+    expect(
+      findAnimatedNodeKey({
+        smoothFactor: 0.6,
+        baseRadius: animatedValue as never,
+      }),
+    ).toBe('baseRadius');
+  });
+});
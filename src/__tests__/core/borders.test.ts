@@ -0,0 +1,148 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/borders.test.ts
+ * @description Unit tests for per-side borders.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  computeSideBorders,
+  insetSquirclePathInput,
+  normalizeBorderSides,
+} from '../../core/borders';
+import { commandsOf, geometryFor, pathInputFor } from '../fixtures/squircles';
+
+describe('per-side borders', () => {
+  const pathInput = pathInputFor({ width: 100, height: 60 });
+
+  it('inherits the shared width and color and stays off without side options', () => {
+    expect(normalizeBorderSides({}, 2, '#000', 'light')).toBeNull();
+
+    const sides = normalizeBorderSides(
+      {
+        borderTopWidth: 4,
+        borderLeftColor: { light: 'red', dark: 'blue' },
+      },
+      2,
+      '#000',
+      'dark',
+    );
+    expect(sides).toEqual({
+      top: { width: 4, color: '#000' },
+      right: { width: 2, color: '#000' },
+      bottom: { width: 2, color: '#000' },
+      left: { width: 2, color: 'blue' },
+    });
+    expect(
+      normalizeBorderSides({ borderTopWidth: 0 }, 0, '#000', 'light'),
+    ).toBeNull();
+  });
+
+  it('rejects gradients as side colors', () => {
+    const gradient = {
+      type: 'linear',
+      stops: [
+        { offset: 0, color: '#fff' },
+        { offset: 1, color: '#000' },
+      ],
+    };
+
+    expect(() =>
+      normalizeBorderSides(
+        { borderTopWidth: 2, borderTopColor: gradient as never },
+        0,
+        '#000',
+        'light',
+      ),
+    ).toThrow('Per-side border colors');
+  });
+
+  it('shrinks each corner by the average of its adjacent insets', () => {
+    const inset = insetSquirclePathInput(pathInput, {
+      top: 4,
+      right: 0,
+      bottom: 2,
+      left: 8,
+    });
+
+    expect(inset).toMatchObject({
+      x: 8,
+      y: 4,
+      input: {
+        width: 92,
+        height: 54,
+        topLeftCornerRadius: 14,
+        topRightCornerRadius: 18,
+        bottomRightCornerRadius: 19,
+        bottomLeftCornerRadius: 15,
+      },
+    });
+    expect(
+      insetSquirclePathInput(pathInput, {
+        top: 40,
+        right: 0,
+        bottom: 40,
+        left: 0,
+      }),
+    ).toBeNull();
+  });
+
+  it('tapers side regions of square corners towards the inner corners', () => {
+    const sides = normalizeBorderSides(
+      { borderTopWidth: 4, borderLeftWidth: 8 },
+      0,
+      '#000',
+      'light',
+    );
+    const borders = computeSideBorders(
+      { ...pathInput, cornerRadius: 0 },
+      sides!,
+      'inside',
+    );
+
+    expect(borders.borderOutset).toBe(0);
+    expect(borders.regions.top).toBe('M 0 0 L 100 0 L 100 4 L 8 4 Z');
+    expect(borders.regions.left).toBe('M 0 60 L 0 0 L 8 4 L 8 60 Z');
+    expect(commandsOf(borders.bandPath).match(/M/g)).toHaveLength(2);
+  });
+
+  it('splits side regions at the corner midpoints of both outlines', () => {
+    const sides = normalizeBorderSides(
+      { borderTopWidth: 4, borderLeftWidth: 8 },
+      0,
+      '#000',
+      'light',
+    );
+    const borders = computeSideBorders(pathInput, sides!, 'inside');
+
+    // The arc of a corner with radius r crosses its diagonal r · (1 - 1/√2) from
+    // both edges: r is 20 on the outline, and 14 (top left), 18 (top right) and
+    // 16 (bottom left) on the inner outline, whose box starts at (8, 4).
+    expect(borders.regions.top).toBe(
+      'M 0 0 L 100 0 L 94.1421 5.8579 L 94.7279 9.2721 L 12.1005 8.1005 L 5.8579 5.8579 Z',
+    );
+    expect(borders.regions.left).toBe(
+      'M 0 60 L 0 0 L 5.8579 5.8579 L 12.1005 8.1005 L 12.6863 55.3137 L 5.8579 54.1421 Z',
+    );
+  });
+
+  it('fills a band instead of stroking and extends the canvas when outside', () => {
+    const geometry = geometryFor(
+      {
+        baseRadius: 20,
+        borderWidth: 2,
+        borderBottomWidth: 6,
+        borderAlignment: 'outside',
+      },
+      { width: 100, height: 60 },
+    );
+
+    expect(geometry.strokeCommandWidth).toBe(0);
+    expect(geometry.borderOutset).toBe(6);
+    expect(geometry.sideBorders?.regions.bottom).toBe(
+      'M 102 66 L -2 66 L 5.0294 58.9706 L 5.8579 54.1421 L 94.1421 54.1421 L 94.9706 58.9706 Z',
+    );
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/concentric.test.ts
+ * @description Unit tests for concentric squircle offsets.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  concentricSquircleOptions,
+  offsetSquircle,
+} from '../../core/concentric';
+import { resolveSquirclePathInput } from '../../core/geometry';
+import { buildSquirclePath } from '../../core/squircleMath';
+import { paramsFor, pathInputFor } from '../fixtures/squircles';
+
+describe('concentric squircles', () => {
+  const input = pathInputFor();
+
+  it('insets and outsets every edge and corner by the same distance', () => {
+    const inner = offsetSquircle(input, -8);
+    const outer = offsetSquircle(input, 4);
+
+    expect(inner).toMatchObject({
+      x: 8,
+      y: 8,
+      input: { width: 104, height: 64, topLeftCornerRadius: 12 },
+    });
+    expect(inner?.path).toBe(buildSquirclePath(inner!.input));
+    expect(outer).toMatchObject({
+      x: -4,
+      y: -4,
+      input: { width: 128, height: 88, bottomRightCornerRadius: 24 },
+    });
+    expect(offsetSquircle(input, -40)).toBeNull();
+  });
+
+  it('offsets the clamped radius so capsules stay capsules', () => {
+    const inner = offsetSquircle({ ...input, cornerRadius: 200 }, -8);
+
+    expect(inner?.input.topLeftCornerRadius).toBe(32);
+    expect(inner?.input.height).toBe(64);
+  });
+
+  it('derives inner options from the parent params and padding', () => {
+    const params = paramsFor({
+      baseRadius: 'capsule',
+      topLeftRadius: 24,
+      curve: 'apple-continuous',
+    });
+    const padding = { top: 8, right: 12, bottom: 8, left: 4 };
+
+    expect(
+      concentricSquircleOptions(
+        params,
+        resolveSquirclePathInput({ width: 200, height: 120 }, params),
+        padding,
+      ),
+    ).toMatchObject({
+      smoothFactor: 0.6,
+      curve: 'apple-continuous',
+      topLeftRadius: 18,
+      topRightRadius: 50,
+      bottomRightRadius: 50,
+    });
+    expect(concentricSquircleOptions(params, null, padding)).toMatchObject({
+      topLeftRadius: 18,
+      topRightRadius: 'capsule',
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/cornerCurves.test.ts
+ * @description Unit tests for the superellipse, continuous and circular corner curves.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import type { RoundedSurfaceOptions } from '../../ExpoSquircle.types';
+import { pointInSquircle } from '../../core/hitTest';
+import { getSquircleGeometry } from '../../core/outline';
+import { normalizeSquircleParams } from '../../core/params';
+import {
+  buildSquirclePath,
+  measureSquirclePath,
+} from '../../core/squircleMath';
+import { buildSquirclePathWorklet } from '../../core/squircleWorklets';
+import { commandsOf, pathInputFor } from '../fixtures/squircles';
+
+describe('corner curves', () => {
+  const base = pathInputFor();
+
+  it('draws circular corners as the unsmoothed Figma corner', () => {
+    expect(buildSquirclePath({ ...base, curve: 'circular' })).toBe(
+      buildSquirclePath({ ...base, cornerSmoothing: 0 }),
+    );
+  });
+
+  it('keeps the superellipse corner on the Lamé curve', () => {
+    const geometry = getSquircleGeometry({
+      ...base,
+      curve: 'superellipse',
+      superellipseExponent: 5,
+    });
+    const corner = geometry.cubicSegments.slice(1, 9);
+
+    expect(geometry.corners.topRight.patch.p).toBe(20);
+    corner.forEach((segment) => {
+      if (segment.type !== 'cubic') {
+        throw new Error('Expected a cubic segment');
+      }
+      const x = (segment.x - 100) / 20;
+      const y = (20 - segment.y) / 20;
+      expect(Math.abs(x) ** 5 + Math.abs(y) ** 5).toBeCloseTo(1, 6);
+    });
+  });
+
+  it('approximates a circle with an exponent of 2', () => {
+    const circle = getSquircleGeometry({ ...base, curve: 'circular' });
+    const superellipse = getSquircleGeometry({
+      ...base,
+      curve: 'superellipse',
+      superellipseExponent: 2,
+    });
+
+    expect(
+      measureSquirclePath({
+        ...base,
+        curve: 'superellipse',
+        superellipseExponent: 2,
+      }),
+    ).toBeCloseTo(measureSquirclePath({ ...base, curve: 'circular' }), 2);
+    [
+      [110, 40],
+      [10, 10],
+      [114.14, 5.86],
+    ].forEach(([x, y]) => {
+      expect(pointInSquircle(superellipse, x, y)).toBe(
+        pointInSquircle(circle, x, y),
+      );
+    });
+  });
+
+  it('extends continuous corners and blends them into arcs when short of room', () => {
+    const roomy = getSquircleGeometry({ ...base, curve: 'apple-continuous' });
+    const capsule = getSquircleGeometry({
+      ...base,
+      cornerRadius: 40,
+      curve: 'apple-continuous',
+    });
+
+    expect(roomy.corners.topLeft.patch.p).toBeCloseTo(30.573, 3);
+    expect(capsule.corners.topLeft.patch.p).toBe(40);
+    expect(capsule.cubicSegments[0]).toEqual({ type: 'move', x: 80, y: 0 });
+    const arcEnd = capsule.cubicSegments[3];
+    expect(arcEnd.type === 'cubic' && arcEnd.x).toBeCloseTo(120);
+    expect(arcEnd.type === 'cubic' && arcEnd.y).toBeCloseTo(40);
+  });
+
+  it('keeps one command structure and cache entry per curve', () => {
+    const continuous = { ...base, curve: 'apple-continuous' as const };
+
+    expect(
+      commandsOf(buildSquirclePathWorklet({ ...continuous, cornerRadius: 0 })),
+    ).toBe(commandsOf(buildSquirclePathWorklet(continuous)));
+    expect(buildSquirclePath(continuous)).not.toBe(buildSquirclePath(base));
+    expect(buildSquirclePath(continuous)).toBe(
+      buildSquirclePathWorklet(continuous),
+    );
+  });
+
+  it('validates the curve options', () => {
+    const params = { smoothFactor: 0.6 };
+
+    expect(normalizeSquircleParams(params)).toMatchObject({
+      curve: 'figma',
+      superellipseExponent: 4,
+    });
+    expect(
+      normalizeSquircleParams({
+        ...params,
+        curve: 'bezier' as RoundedSurfaceOptions['curve'],
+      }).curve,
+    ).toBe('figma');
+    expect(() =>
+      normalizeSquircleParams({
+        ...params,
+        curve: 'superellipse',
+        superellipseExponent: 1.5,
+      }),
+    ).toThrow('superellipseExponent');
+  });
+});
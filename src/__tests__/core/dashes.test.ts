@@ -0,0 +1,26 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/dashes.test.ts
+ * @description Unit tests for fitting dash patterns onto the squircle perimeter.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { fitDashPattern } from '../../core/dashes';
+
+describe('fitDashPattern', () => {
+  it('fits a whole number of periods onto the perimeter', () => {
+    const [dash, gap] = fitDashPattern(100, 6, 4) ?? [];
+
+    expect(dash + gap).toBeCloseTo(10);
+    expect(fitDashPattern(103, 6, 4)).toEqual([
+      expect.closeTo(6.18),
+      expect.closeTo(4.12),
+    ]);
+  });
+
+  it('skips patterns without gaps', () => {
+    expect(fitDashPattern(100, 6, 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/figma.test.ts
+ * @description Unit tests for importing Figma nodes.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { fromFigmaNode } from '../../core/figma';
+import { normalizeSquircleParams } from '../../core/params';
+import figmaCard from '../fixtures/figma-card.json';
+
+describe('fromFigmaNode', () => {
+  it('converts a saved REST frame and reports what it cannot map', () => {
+    const { options, size, unsupported } = fromFigmaNode(figmaCard);
+
+    expect(size).toEqual({ width: 200, height: 100 });
+    expect(options).toEqual({
+      baseRadius: 24,
+      topLeftRadius: 24,
+      topRightRadius: 24,
+      bottomRightRadius: 8,
+      bottomLeftRadius: 8,
+      smoothFactor: 0.6,
+      surfaceColor: {
+        type: 'linear',
+        stops: [
+          { offset: 0, color: '#ff0000', opacity: 0.5 },
+          { offset: 1, color: '#0000ff', opacity: 0.5 },
+        ],
+        start: { x: 0, y: 0 },
+        end: { x: 1, y: 1 },
+      },
+      borderColor: 'rgba(0, 0, 0, 0.5)',
+      borderWidth: 2,
+      borderAlignment: 'outside',
+      borderStyle: 'dashed',
+      borderDashLength: 6,
+      borderGapLength: 3,
+      shadows: [
+        {
+          offsetX: 0,
+          offsetY: 4,
+          blurRadius: 12,
+          spread: 2,
+          color: '#000000',
+          opacity: 0.25,
+        },
+      ],
+      insetShadows: [
+        {
+          offsetX: 0,
+          offsetY: 1,
+          blurRadius: 0,
+          spread: 0,
+          color: '#ffffff',
+          opacity: 0.5,
+        },
+      ],
+    });
+    expect(unsupported.map(({ property }) => property)).toEqual([
+      'fills[0]',
+      'effects[2]',
+      'opacity',
+    ]);
+    expect(() => normalizeSquircleParams(options)).not.toThrow();
+  });
+
+  it('reads plugin nodes with gradient transforms and per-side weights', () => {
+    const { options, unsupported } = fromFigmaNode({
+      type: 'RECTANGLE',
+      width: 100,
+      height: 100,
+      cornerRadius: 20,
+      topLeftRadius: 20,
+      topRightRadius: 20,
+      bottomRightRadius: 20,
+      bottomLeftRadius: 20,
+      cornerSmoothing: 1,
+      fills: [
+        {
+          type: 'GRADIENT_RADIAL',
+          gradientTransform: [
+            [1, 0, 0],
+            [0, 1, 0],
+          ],
+          gradientStops: [
+            { position: 0, color: { r: 1, g: 1, b: 1, a: 1 } },
+            { position: 1, color: { r: 0, g: 0, b: 0, a: 1 } },
+          ],
+        },
+      ],
+      strokes: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }],
+      strokeWeight: 1,
+      strokeTopWeight: 0,
+      strokeRightWeight: 0,
+      strokeBottomWeight: 1,
+      strokeLeftWeight: 0,
+      dashPattern: [4, 4],
+    });
+
+    expect(options.baseRadius).toBe(20);
+    expect(options.topLeftRadius).toBeUndefined();
+    expect(options.surfaceColor).toMatchObject({
+      type: 'radial',
+      center: { x: 0.5, y: 0.5 },
+    });
+    expect((options.surfaceColor as { radius: number }).radius).toBeCloseTo(
+      Math.SQRT1_2,
+      5,
+    );
+    expect(options).toMatchObject({
+      borderColor: '#000000',
+      borderTopWidth: 0,
+      borderBottomWidth: 1,
+    });
+    expect(options.borderStyle).toBeUndefined();
+    expect(unsupported).toEqual([
+      {
+        property: 'dashPattern',
+        reason: 'Per-side stroke weights are drawn solid.',
+      },
+    ]);
+  });
+
+  it('reports image fills and unsupported node types', () => {
+    const { options, unsupported } = fromFigmaNode({
+      type: 'ELLIPSE',
+      fills: [{ type: 'IMAGE', visible: true }],
+    });
+
+    expect(options).toEqual({ baseRadius: 0, smoothFactor: 0 });
+    expect(unsupported.map(({ property }) => property)).toEqual([
+      'type',
+      'fills[0]',
+    ]);
+  });
+});
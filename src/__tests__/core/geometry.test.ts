@@ -0,0 +1,52 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/geometry.test.ts
+ * @description Unit tests for the render geometry shared by the squircle components.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { computeSquircleGeometry } from '../../core/geometry';
+import { geometryFor, paramsFor } from '../fixtures/squircles';
+
+describe('computeSquircleGeometry', () => {
+  it('returns null until the frame has a size', () => {
+    expect(computeSquircleGeometry(null, paramsFor())).toBeNull();
+  });
+
+  it('maps border alignment onto stroke width, clip and outset', () => {
+    const strokeFor = (borderAlignment: 'inside' | 'center' | 'outside') => {
+      const geometry = geometryFor({
+        baseRadius: 16,
+        borderWidth: 2,
+        borderAlignment,
+      });
+      return [
+        geometry.strokeCommandWidth,
+        geometry.strokeClip,
+        geometry.borderOutset,
+      ];
+    };
+
+    expect(strokeFor('inside')).toEqual([4, 'inside', 0]);
+    expect(strokeFor('center')).toEqual([2, 'none', 1]);
+    expect(strokeFor('outside')).toEqual([4, 'outside', 2]);
+  });
+
+  it('strokes dotted borders along the centerline of the border band', () => {
+    const geometry = geometryFor({
+      baseRadius: 16,
+      borderWidth: 2,
+      borderStyle: 'dotted',
+    });
+
+    expect(geometry).toMatchObject({
+      strokeCommandWidth: 2,
+      strokeOffset: 1,
+      strokeClip: 'none',
+      strokeLineCap: 'round',
+    });
+    expect(geometry.strokePath).not.toBe(geometry.path);
+  });
+});
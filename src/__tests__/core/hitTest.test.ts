@@ -0,0 +1,55 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/hitTest.test.ts
+ * @description Unit tests for point-in-shape and touch hit testing.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { isTouchOutsideSquircle, pointInSquircle } from '../../core/hitTest';
+import { getSquircleGeometry } from '../../core/outline';
+import { pathInputFor } from '../fixtures/squircles';
+
+describe('pointInSquircle', () => {
+  const geometry = getSquircleGeometry(
+    pathInputFor({ width: 100, height: 100, cornerRadius: 40 }),
+  );
+
+  it('accepts points in the middle and along straight edges', () => {
+    expect(pointInSquircle(geometry, 50, 50)).toBe(true);
+    expect(pointInSquircle(geometry, 50, 0)).toBe(true);
+    expect(pointInSquircle(geometry, 100, 50)).toBe(true);
+  });
+
+  it('rejects points in the transparent corner areas and outside the frame', () => {
+    expect(pointInSquircle(geometry, 2, 2)).toBe(false);
+    expect(pointInSquircle(geometry, 98, 98)).toBe(false);
+    expect(pointInSquircle(geometry, -1, 50)).toBe(false);
+    expect(pointInSquircle(geometry, 50, 101)).toBe(false);
+  });
+
+  it('treats square corners as part of the shape', () => {
+    const square = getSquircleGeometry(
+      pathInputFor({ width: 100, height: 100, cornerRadius: 0 }),
+    );
+    expect(pointInSquircle(square, 0.5, 0.5)).toBe(true);
+  });
+
+  it('decides touches by their location even when the view moved after layout', () => {
+    // Laid out at the page origin, then scrolled down by 500 without a relayout.
+    const layoutOrigin = { x: 0, y: 0 };
+    const corner = { pageX: 2, pageY: 502, locationX: 2, locationY: 2 };
+    const center = { pageX: 50, pageY: 550, locationX: 50, locationY: 50 };
+
+    expect(isTouchOutsideSquircle(geometry, corner)).toBe(true);
+    expect(isTouchOutsideSquircle(geometry, center)).toBe(false);
+    expect(
+      pointInSquircle(
+        geometry,
+        center.pageX - layoutOrigin.x,
+        center.pageY - layoutOrigin.y,
+      ),
+    ).toBe(false);
+  });
+});
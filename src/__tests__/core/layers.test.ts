@@ -0,0 +1,107 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/layers.test.ts
+ * @description Unit tests for surface layers.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { toSquircleSVG } from '../../core/svgDocument';
+import { FRAME, geometryFor, paramsFor } from '../fixtures/squircles';
+
+describe('layers', () => {
+  it('maps the surface fill and the border onto two default layers', () => {
+    const options = { surfaceColor: '#fff', borderWidth: 2 };
+    const params = paramsFor(options);
+
+    expect(params.layers).toEqual([
+      {
+        type: 'paint',
+        fill: '#fff',
+        stroke: null,
+        strokeWidth: 0,
+        opacity: 1,
+        blendMode: 'normal',
+        inset: 0,
+      },
+      { type: 'border' },
+    ]);
+    const geometry = geometryFor(options);
+    expect(geometry.layers[0]).toEqual({
+      fillPath: geometry.path,
+      strokePath: null,
+    });
+  });
+
+  it('replaces the border and drops layers that paint nothing', () => {
+    const params = paramsFor(
+      {
+        borderWidth: 2,
+        borderTopWidth: 4,
+        layers: [
+          { fill: '#fff', blendMode: 'plus' as never },
+          { stroke: { light: '#fff', dark: '#000' }, strokeWidth: 'hairline' },
+          { fill: '#000', opacity: 0 },
+          { opacity: 0.5 },
+        ],
+      },
+      { colorScheme: 'dark', hairlineWidth: 0.5 },
+    );
+
+    expect(params.borderWidth).toBe(0);
+    expect(params.borderSides).toBeNull();
+    expect(params.layers).toMatchObject([
+      { fill: '#fff', stroke: null, blendMode: 'normal' },
+      { fill: null, stroke: '#000', strokeWidth: 0.5 },
+    ]);
+  });
+
+  it('offsets layer outlines and widens the canvas for outset layers', () => {
+    const geometry = geometryFor({
+      baseRadius: 16,
+      layers: [
+        { fill: '#fff' },
+        { stroke: '#fff', strokeWidth: 1, inset: 4 },
+        { stroke: '#000', strokeWidth: 2, inset: -2, opacity: 0.4 },
+      ],
+    });
+
+    expect(geometry.borderOutset).toBe(2);
+    expect(geometry.strokeCommandWidth).toBe(0);
+    expect(geometry.layers[1]?.fillPath).toBeNull();
+    expect(geometry.layers[1]?.strokePath?.match(/M/g)).toHaveLength(2);
+    expect(geometry.layers[1]?.strokePath).toContain('L 4 23.2');
+    expect(geometry.layers[1]?.strokePath).toContain('A 12 12 ');
+    expect(geometry.layers[1]?.strokePath).toContain('A 11 11 ');
+    expect(geometry.layers[2]?.strokePath).toContain('A 18 18 ');
+    expect(geometry.layers[2]?.strokePath).toContain(geometry.path);
+  });
+
+  it('exports layers with their opacity and blend mode', () => {
+    const svg = toSquircleSVG(
+      {
+        baseRadius: 16,
+        smoothFactor: 0.6,
+        layers: [
+          { fill: '#fff' },
+          {
+            stroke: { type: 'linear', stops: [{ offset: 0, color: '#fff' }] },
+            inset: -1,
+            opacity: 0.5,
+            blendMode: 'multiply',
+          },
+        ],
+      },
+      FRAME,
+    );
+
+    expect(svg).toContain('viewBox="-1 -1 122 82"');
+    expect(svg).toContain('<g opacity="0.5" style="mix-blend-mode:multiply">');
+    expect(svg).toContain(
+      'fill-rule="evenodd" fill="url(#squircle-layer-1-stroke)"',
+    );
+    expect(svg).toContain('<linearGradient id="squircle-layer-1-stroke"');
+    expect(svg).not.toContain('stroke-width');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/outline.test.ts
+ * @description Unit tests for the structured squircle outline.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { getSquircleGeometry } from '../../core/outline';
+import { pathInputFor } from '../fixtures/squircles';
+
+describe('getSquircleGeometry', () => {
+  it('reports clamped radii and a closed clockwise outline', () => {
+    const geometry = getSquircleGeometry(
+      pathInputFor({ height: 60, cornerRadius: 80 }),
+    );
+
+    expect(geometry.corners.topLeft.radius).toBe(30);
+    expect(geometry.corners.bottomRight.patch.p).toBeLessThanOrEqual(30);
+    expect(geometry.segments[0]).toEqual({
+      type: 'move',
+      x: 120 - geometry.corners.topRight.patch.p,
+      y: 0,
+    });
+    expect(geometry.segments[geometry.segments.length - 1]).toEqual({
+      type: 'close',
+    });
+  });
+
+  it('converts every line and arc into a cubic with the same end point', () => {
+    const { segments, cubicSegments } = getSquircleGeometry(
+      pathInputFor({
+        width: 200,
+        height: 100,
+        cornerRadius: 24,
+        topLeftCornerRadius: 0,
+      }),
+    );
+
+    expect(cubicSegments).toHaveLength(segments.length);
+    expect(cubicSegments.filter((s) => s.type === 'cubic')).toHaveLength(16);
+    segments.forEach((segment, index) => {
+      const converted = cubicSegments[index];
+      if (segment.type !== 'close' && converted.type !== 'close') {
+        expect(converted.x).toBeCloseTo(segment.x, 10);
+        expect(converted.y).toBeCloseTo(segment.y, 10);
+      }
+    });
+  });
+
+  it('keeps arc approximations on the circle', () => {
+    const { segments, cubicSegments } = getSquircleGeometry({
+      width: 100,
+      height: 100,
+      cornerRadius: 50,
+      cornerSmoothing: 0,
+    });
+    const arcIndex = segments.findIndex((s) => s.type === 'arc');
+    const from = segments[arcIndex - 1];
+    const arc = cubicSegments[arcIndex];
+    if (from.type !== 'cubic' || arc.type !== 'cubic') {
+      throw new Error('unexpected segment types');
+    }
+
+    // Midpoint of the cubic, measured from the circle center at (50, 50).
+    const midX = (from.x + 3 * arc.x1 + 3 * arc.x2 + arc.x) / 8;
+    const midY = (from.y + 3 * arc.y1 + 3 * arc.y2 + arc.y) / 8;
+    expect(Math.hypot(midX - 50, midY - 50)).toBeCloseTo(50, 1);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/paint.test.ts
+ * @description Unit tests for paint normalization and gradient geometry.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  normalizeSquirclePaint,
+  resolveLinearGradient,
+  resolveRadialGradient,
+} from '../../core/paint';
+
+describe('normalizeSquirclePaint', () => {
+  it('passes plain colors through and falls back when missing', () => {
+    expect(normalizeSquirclePaint('#fff', '#000')).toBe('#fff');
+    expect(normalizeSquirclePaint(undefined, '#000')).toBe('#000');
+  });
+
+  it('sorts and clamps gradient stops', () => {
+    const paint = normalizeSquirclePaint(
+      {
+        type: 'linear',
+        stops: [
+          { offset: 1.4, color: '#fff' },
+          { offset: -1, color: '#000', opacity: 2 },
+        ],
+      },
+      '#000',
+    );
+
+    expect(paint).toEqual({
+      type: 'linear',
+      angle: 180,
+      start: undefined,
+      end: undefined,
+      stops: [
+        { offset: 0, color: '#000', opacity: 1 },
+        { offset: 1, color: '#fff', opacity: 1 },
+      ],
+    });
+  });
+
+  it('throws when a gradient has no stops', () => {
+    expect(() =>
+      normalizeSquirclePaint({ type: 'radial', stops: [] }, '#000'),
+    ).toThrow(/stop/i);
+  });
+});
+
+describe('gradient geometry', () => {
+  it('spans the full frame for CSS-style angles', () => {
+    expect(
+      resolveLinearGradient({ type: 'linear', stops: [], angle: 90 }, 200, 100),
+    ).toEqual({
+      x1: expect.closeTo(0),
+      y1: expect.closeTo(50),
+      x2: expect.closeTo(200),
+      y2: expect.closeTo(50),
+    });
+  });
+
+  it('uses explicit start and end points as frame fractions', () => {
+    expect(
+      resolveLinearGradient(
+        {
+          type: 'linear',
+          stops: [],
+          angle: 0,
+          start: { x: 0, y: 0 },
+          end: { x: 1, y: 1 },
+        },
+        200,
+        100,
+      ),
+    ).toEqual({ x1: 0, y1: 0, x2: 200, y2: 100 });
+  });
+
+  it('measures radial radii against the farthest corner', () => {
+    const { cx, cy, r } = resolveRadialGradient(
+      { type: 'radial', stops: [], center: { x: 0, y: 0 }, radius: 0.5 },
+      30,
+      40,
+    );
+
+    expect([cx, cy, r]).toEqual([0, 0, 25]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/params.test.ts
+ * @description Unit tests for params normalization.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { getSquircleGeometry } from '../../core/outline';
+import {
+  normalizeBorderAlignment,
+  normalizeSquircleParams,
+} from '../../core/params';
+import { buildSquirclePath } from '../../core/squircleMath';
+import { geometryFor, pathInputFor } from '../fixtures/squircles';
+
+describe('normalizeBorderAlignment', () => {
+  it('keeps supported modes and defaults to inside strokes', () => {
+    expect(normalizeBorderAlignment('outside')).toBe('outside');
+    expect(normalizeBorderAlignment('center')).toBe('center');
+    expect(normalizeBorderAlignment(undefined)).toBe('inside');
+  });
+});
+
+describe('per-corner smoothing', () => {
+  const input = pathInputFor({ width: 200, height: 120, cornerRadius: 24 });
+
+  it('changes only the overridden corner', () => {
+    const base = getSquircleGeometry(input);
+    const sheet = getSquircleGeometry({
+      ...input,
+      bottomLeftCornerSmoothing: 0,
+    });
+
+    expect(sheet.corners.topLeft.patch).toEqual(base.corners.topLeft.patch);
+    expect(sheet.corners.bottomLeft.patch.p).toBeCloseTo(24);
+  });
+
+  it('does not reuse cached paths across different corner smoothing', () => {
+    expect(
+      buildSquirclePath({ ...input, topRightCornerSmoothing: 0 }),
+    ).not.toBe(buildSquirclePath(input));
+  });
+
+  it('validates overrides and forwards preserveSmoothing to the geometry', () => {
+    expect(() =>
+      normalizeSquircleParams({ smoothFactor: 0.6, topLeftSmoothFactor: NaN }),
+    ).toThrow('smoothFactor');
+
+    const geometry = geometryFor(
+      { bottomLeftSmoothFactor: 2, preserveSmoothing: true },
+      { width: 100, height: 100 },
+    );
+    expect(geometry.pathInput.bottomLeftCornerSmoothing).toBe(1);
+    expect(geometry.pathInput.preserveSmoothing).toBe(true);
+  });
+});
+
+describe('relative radii', () => {
+  it('parses percentages and the capsule keyword', () => {
+    const params = normalizeSquircleParams({
+      smoothFactor: 0.6,
+      baseRadius: '25%',
+      topLeftRadius: 'capsule',
+    });
+
+    expect(params.baseRadius).toEqual({ percent: 25 });
+    expect(params.topLeftRadius).toBe('capsule');
+  });
+
+  it('rejects unknown radius strings', () => {
+    expect(() =>
+      normalizeSquircleParams({
+        smoothFactor: 0.6,
+        baseRadius: 'large' as unknown as number,
+      }),
+    ).toThrow('capsule');
+  });
+
+  it('resolves relative radii against the shorter side of the frame', () => {
+    const geometry = geometryFor(
+      { baseRadius: '25%', bottomRightRadius: 'capsule' },
+      { width: 200, height: 40 },
+    );
+
+    expect(geometry.pathInput.cornerRadius).toBe(10);
+    expect(geometry.pathInput.bottomRightCornerRadius).toBe(20);
+  });
+});
+
+describe('themed params', () => {
+  const preset = {
+    baseRadius: 20,
+    smoothFactor: 0.6,
+    surfaceColor: { light: '#FFFFFF', dark: '#111827' },
+  };
+
+  it('merges local params over the preset', () => {
+    const params = normalizeSquircleParams({ baseRadius: 8 }, { preset });
+
+    expect(params.baseRadius).toBe(8);
+    expect(params.smoothFactor).toBe(0.6);
+  });
+
+  it('resolves scheme-dependent colors for the active scheme', () => {
+    expect(
+      normalizeSquircleParams(undefined, { preset, colorScheme: 'dark' })
+        .surfaceColor,
+    ).toBe('#111827');
+    expect(normalizeSquircleParams(undefined, { preset }).surfaceColor).toBe(
+      '#FFFFFF',
+    );
+  });
+
+  it('keeps preset values for keys the params leave undefined', () => {
+    const params = normalizeSquircleParams(
+      { baseRadius: undefined, smoothFactor: undefined, borderWidth: 2 },
+      { preset },
+    );
+
+    expect(params.smoothFactor).toBe(0.6);
+    expect(params.baseRadius).toBe(20);
+    expect(params.borderWidth).toBe(2);
+  });
+
+  it('keeps validating merged values', () => {
+    expect(() =>
+      normalizeSquircleParams({ baseRadius: 4 }, { preset: {} }),
+    ).toThrow('smoothFactor');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/pixels.test.ts
+ * @description Unit tests for pixel snapping.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  pathPrecisionForPixelRatio,
+  snapBorderWidth,
+  snapToPixel,
+} from '../../core/pixels';
+import { geometryFor, paramsFor } from '../fixtures/squircles';
+
+describe('pixel snapping', () => {
+  it('rounds lengths and border widths to device pixels', () => {
+    expect(snapToPixel(10.2, 3)).toBeCloseTo(10.3333, 4);
+    expect(snapBorderWidth(0.2, 3)).toBeCloseTo(1 / 3, 6);
+    expect(snapBorderWidth(0, 3)).toBe(0);
+    expect(pathPrecisionForPixelRatio(1)).toBe(2);
+    expect(pathPrecisionForPixelRatio(3)).toBe(2);
+    expect(pathPrecisionForPixelRatio(8)).toBe(3);
+  });
+
+  it('resolves hairline borders through the params context', () => {
+    const params = paramsFor(
+      { borderWidth: 'hairline' },
+      { hairlineWidth: 0.5 },
+    );
+
+    expect(params.borderWidth).toBe(0.5);
+    expect(paramsFor({ borderWidth: 'hairline' }).borderWidth).toBe(1);
+  });
+
+  it('snaps the frame, border and canvas outset when enabled', () => {
+    const geometry = geometryFor(
+      {
+        baseRadius: 12,
+        borderWidth: 0.9,
+        borderAlignment: 'center',
+        pixelSnapping: true,
+      },
+      { width: 100.3, height: 40.1 },
+      { pixelRatio: 2 },
+    );
+
+    expect(geometry).toMatchObject({
+      width: 100.5,
+      height: 40,
+      strokeCommandWidth: 1,
+      borderOutset: 0.5,
+    });
+    expect(geometry.path).not.toMatch(/\.\d{3}/);
+  });
+});
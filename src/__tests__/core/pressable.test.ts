@@ -0,0 +1,151 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/pressable.test.ts
+ * @description Unit tests for the SquirclePressable state helpers.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  appendScaleTransform,
+  normalizeShadowLayer,
+  normalizeStateLayers,
+  resolveActiveState,
+  resolveLayerOpacities,
+  resolveOptions,
+} from '../../core/pressable';
+
+describe('SquirclePressable helpers', () => {
+  const idle = {
+    hovered: false,
+    focused: false,
+    pressed: false,
+    disabled: false,
+  };
+
+  it('picks disabled over pressed over focused over hovered', () => {
+    const all = ['hovered', 'focused', 'pressed', 'disabled'] as const;
+    const active = {
+      hovered: true,
+      focused: true,
+      pressed: true,
+      disabled: true,
+    };
+
+    expect(resolveActiveState(active, [...all])).toBe('disabled');
+    expect(resolveActiveState({ ...active, disabled: false }, [...all])).toBe(
+      'pressed',
+    );
+    expect(
+      resolveActiveState({ ...idle, hovered: true, focused: true }, [...all]),
+    ).toBe('focused');
+    expect(resolveActiveState({ ...idle, hovered: true }, [...all])).toBe(
+      'hovered',
+    );
+    expect(resolveActiveState(idle, [...all])).toBeNull();
+  });
+
+  it('skips active states without overrides', () => {
+    expect(
+      resolveActiveState({ ...idle, pressed: true, hovered: true }, [
+        'hovered',
+      ]),
+    ).toBe('hovered');
+    expect(
+      resolveActiveState({ ...idle, disabled: true }, ['pressed']),
+    ).toBeNull();
+  });
+
+  it('merges boolean or partial options over the defaults', () => {
+    const defaults = { color: '#000', opacity: 0.12, duration: 300 };
+
+    expect(resolveOptions(undefined, defaults)).toBeNull();
+    expect(resolveOptions(false, defaults)).toBeNull();
+    expect(resolveOptions(true, defaults)).toEqual(defaults);
+    expect(resolveOptions({ opacity: 0.3 }, defaults)).toEqual({
+      color: '#000',
+      opacity: 0.3,
+      duration: 300,
+    });
+  });
+
+  it('normalizes each overridden state over the base params without drop shadows', () => {
+    const layers = normalizeStateLayers(
+      {
+        baseRadius: 12,
+        smoothFactor: 0.6,
+        surfaceColor: '#fff',
+        shadows: [{ offsetY: 2, blurRadius: 4, color: '#000' }],
+      },
+      { pressed: { surfaceColor: '#eee' }, hovered: { baseRadius: 16 } },
+    );
+
+    expect(layers.map(({ state }) => state)).toEqual(['hovered', 'pressed']);
+    expect(layers[0].params.baseRadius).toBe(16);
+    expect(layers[0].params.surfaceColor).toBe('#fff');
+    expect(layers[1].params.baseRadius).toBe(12);
+    expect(layers[1].params.surfaceColor).toBe('#eee');
+    layers.forEach(({ params }) => expect(params.shadows).toEqual([]));
+  });
+
+  it('shows only the translucent state layer instead of painting it over the idle look', () => {
+    const squircleParams = {
+      baseRadius: 12,
+      smoothFactor: 0.6,
+      surfaceColor: '#2563EB',
+    };
+    const layers = normalizeStateLayers(squircleParams, {
+      disabled: { surfaceColor: 'rgba(0,0,0,0.1)' },
+    });
+    const activeState = resolveActiveState(
+      { ...idle, disabled: true },
+      layers.map(({ state }) => state),
+    );
+    const opacities = resolveLayerOpacities(activeState);
+
+    expect(layers[0].params.surfaceColor).toBe('rgba(0,0,0,0.1)');
+    expect(opacities).toEqual({
+      idle: 0,
+      hovered: 0,
+      focused: 0,
+      pressed: 0,
+      disabled: 1,
+    });
+    expect(resolveLayerOpacities(null)).toMatchObject({ idle: 1, disabled: 0 });
+  });
+
+  it('keeps the drop shadows on a layer of their own', () => {
+    const shadowLayer = normalizeShadowLayer({
+      baseRadius: 12,
+      smoothFactor: 0.6,
+      surfaceColor: '#fff',
+      borderWidth: 2,
+      shadows: [{ offsetY: 2, blurRadius: 4, color: '#000' }],
+    });
+
+    expect(shadowLayer?.shadows).toHaveLength(1);
+    expect(shadowLayer?.layers).toEqual([]);
+    expect(shadowLayer?.borderWidth).toBe(0);
+    expect(
+      normalizeShadowLayer({ baseRadius: 12, smoothFactor: 0.6 }),
+    ).toBeNull();
+  });
+
+  it('throws when a merged state is invalid', () => {
+    expect(() =>
+      normalizeStateLayers(
+        { baseRadius: 12, smoothFactor: 0.6 },
+        { pressed: { smoothFactor: NaN } },
+      ),
+    ).toThrow('smoothFactor');
+  });
+
+  it('appends the pressed scale after the caller transforms', () => {
+    expect(appendScaleTransform(undefined, 0.9)).toEqual([{ scale: 0.9 }]);
+    expect(
+      appendScaleTransform([{ rotate: '45deg' }, { translateX: 4 }], 0.9),
+    ).toEqual([{ rotate: '45deg' }, { translateX: 4 }, { scale: 0.9 }]);
+    expect(appendScaleTransform('rotate(45deg)', 0.9)).toBe('rotate(45deg)');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/shadows.test.ts
+ * @description Unit tests for drop and inset shadow geometry.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  computeInsetShadowGeometry,
+  computeShadowOutset,
+  normalizeSquircleShadows,
+  spreadSquirclePathInput,
+} from '../../core/shadows';
+import { buildSquirclePath } from '../../core/squircleMath';
+import { pathInputFor } from '../fixtures/squircles';
+
+describe('shadows', () => {
+  it('grows the geometry and rounded radii by the spread distance', () => {
+    const input = spreadSquirclePathInput(
+      pathInputFor({
+        width: 100,
+        height: 60,
+        cornerRadius: 12,
+        topLeftCornerRadius: 0,
+      }),
+      4,
+    );
+
+    expect(input).toMatchObject({
+      width: 108,
+      height: 68,
+      cornerRadius: 16,
+      topLeftCornerRadius: 0,
+      topRightCornerRadius: 16,
+      bottomRightCornerRadius: 16,
+      bottomLeftCornerRadius: 16,
+    });
+  });
+
+  it('returns null when a negative spread collapses the shape', () => {
+    expect(
+      spreadSquirclePathInput(
+        pathInputFor({ width: 10, height: 10, cornerRadius: 0 }),
+        -6,
+      ),
+    ).toBeNull();
+  });
+
+  it('derives the outset from offset, spread and blur', () => {
+    const shadows = normalizeSquircleShadows([
+      { offsetY: 8, blurRadius: 16, spread: 2, opacity: 0.2 },
+      { color: '#f00', opacity: 0 },
+    ]);
+
+    expect(shadows).toHaveLength(1);
+    expect(computeShadowOutset(shadows)).toBe(34);
+  });
+
+  it('shrinks and offsets inset shadows inside a canvas-sized cutout', () => {
+    const pathInput = pathInputFor({
+      width: 100,
+      height: 60,
+      cornerRadius: 12,
+    });
+    const [shadow] = normalizeSquircleShadows([
+      { offsetX: 2, offsetY: 4, blurRadius: 8, spread: 3 },
+    ]);
+    const outset = computeShadowOutset([shadow]);
+    const inset = computeInsetShadowGeometry(pathInput, shadow, outset);
+
+    expect(outset).toBe(19);
+    expect(inset).toMatchObject({
+      translateX: 5,
+      translateY: 7,
+      region: { x: -24, y: -26, width: 138, height: 98 },
+    });
+    expect(inset.path).toBe(
+      `M -24 -26 h 138 v 98 h -138 Z ${buildSquirclePath(
+        spreadSquirclePathInput(pathInput, -3)!,
+      )}`,
+    );
+  });
+
+  it('paints the whole canvas when the spread collapses an inset shadow', () => {
+    const [shadow] = normalizeSquircleShadows([{ spread: 40 }]);
+    const inset = computeInsetShadowGeometry(
+      pathInputFor({ width: 100, height: 60, cornerRadius: 0 }),
+      shadow,
+      0,
+    );
+
+    expect(inset.path).toBe('M -40 -40 h 100 v 60 h -100 Z');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/squircleMath.test.ts
+ * @description Unit tests for the cached squircle path builder and its caches.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { prewarmSquirclePaths } from '../../core/geometry';
+import { createLruCache } from '../../core/lruCache';
+import {
+  buildSquirclePath,
+  clearSquircleCache,
+  configureSquircleCache,
+  getSquircleCacheStats,
+  measureSquirclePath,
+} from '../../core/squircleMath';
+import { pathInputFor } from '../fixtures/squircles';
+
+describe('measureSquirclePath', () => {
+  it('measures plain rectangles edge by edge', () => {
+    expect(
+      measureSquirclePath({ width: 120, height: 80, cornerSmoothing: 0.6 }),
+    ).toBeCloseTo(400);
+  });
+
+  it('matches the circumference of an unsmoothed circle', () => {
+    expect(
+      measureSquirclePath({
+        width: 100,
+        height: 100,
+        cornerRadius: 50,
+        cornerSmoothing: 0,
+      }),
+    ).toBeCloseTo(100 * Math.PI, 3);
+  });
+
+  it('is shorter than the bounding rectangle once corners are smoothed', () => {
+    const perimeter = measureSquirclePath({
+      width: 180,
+      height: 90,
+      cornerRadius: 30,
+      topLeftCornerRadius: 10,
+      cornerSmoothing: 0.7,
+    });
+
+    expect(perimeter).toBeGreaterThan(2 * Math.PI * 30);
+    expect(perimeter).toBeLessThan(540);
+  });
+});
+
+describe('path caches', () => {
+  const input = pathInputFor({ width: 80, height: 40, cornerRadius: 12 });
+
+  it('evicts the least recently used entry', () => {
+    const cache = createLruCache<number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.stats()).toEqual({
+      size: 2,
+      limit: 2,
+      hits: 2,
+      misses: 1,
+      evictions: 1,
+    });
+  });
+
+  it('counts hits and misses and respects configured limits', () => {
+    clearSquircleCache();
+    configureSquircleCache({ pathLimit: 1 });
+
+    buildSquirclePath(input);
+    buildSquirclePath(input);
+    buildSquirclePath({ ...input, width: 90 });
+
+    expect(getSquircleCacheStats().paths).toEqual({
+      size: 1,
+      limit: 1,
+      hits: 1,
+      misses: 2,
+      evictions: 1,
+    });
+
+    configureSquircleCache({ pathLimit: 160 });
+    expect(() => configureSquircleCache({ profileLimit: -1 })).toThrow(
+      'ExpoSquircle: Cache limits must be non-negative integers.',
+    );
+  });
+
+  it('prewarms paths for known sizes', () => {
+    clearSquircleCache();
+    prewarmSquirclePaths([{ width: 80, height: 40 }], {
+      baseRadius: 12,
+      smoothFactor: 0.6,
+    });
+    buildSquirclePath(input);
+
+    expect(getSquircleCacheStats().paths).toMatchObject({ size: 1, hits: 1 });
+  });
+});
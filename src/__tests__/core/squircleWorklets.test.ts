@@ -0,0 +1,56 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/squircleWorklets.test.ts
+ * @description Unit tests for the worklet-safe path builder and path interpolation.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  buildSquirclePathWorklet,
+  interpolateSquirclePath,
+} from '../../core/squircleWorklets';
+import { commandsOf, pathInputFor } from '../fixtures/squircles';
+
+describe('interpolateSquirclePath', () => {
+  const chip = pathInputFor({
+    width: 80,
+    height: 32,
+    cornerRadius: 16,
+    topLeftCornerRadius: 0,
+  });
+  const sheet = pathInputFor({
+    width: 360,
+    height: 640,
+    cornerRadius: 28,
+    cornerSmoothing: 1,
+  });
+
+  it('keeps the same command structure when a corner becomes square', () => {
+    const rounded = buildSquirclePathWorklet({
+      ...chip,
+      topLeftCornerRadius: 16,
+    });
+    const square = buildSquirclePathWorklet(chip);
+
+    expect(commandsOf(square)).toBe(commandsOf(rounded));
+    expect(square).not.toContain('NaN');
+  });
+
+  it('emits the same commands at every step of the transition', () => {
+    const structure = commandsOf(interpolateSquirclePath(chip, sheet, 0));
+
+    [0.25, 0.5, 0.75, 1, 1.2].forEach((t) => {
+      const path = interpolateSquirclePath(chip, sheet, t);
+      expect(commandsOf(path)).toBe(structure);
+      expect(path).not.toContain('NaN');
+    });
+  });
+
+  it('lands on the end shape at t = 1', () => {
+    expect(interpolateSquirclePath(chip, sheet, 1)).toBe(
+      buildSquirclePathWorklet(sheet),
+    );
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/style.test.ts
+ * @description Unit tests for adopting view styles into squircle options.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  getStyleFrame,
+  getStylePadding,
+  splitContentStyle,
+  splitSquircleStyle,
+} from '../../core/style';
+
+describe('splitSquircleStyle', () => {
+  it('moves background, border and radius keys into squircle options', () => {
+    const { adopted, style } = splitSquircleStyle({
+      padding: 12,
+      backgroundColor: '#fff',
+      borderColor: '#000',
+      borderWidth: 1,
+      borderRadius: 16,
+      borderTopLeftRadius: '50%',
+    });
+
+    expect(adopted).toEqual({
+      baseRadius: 16,
+      topLeftRadius: '50%',
+      borderWidth: 1,
+      surfaceColor: '#fff',
+      borderColor: '#000',
+    });
+    expect(style).toEqual({ padding: 12 });
+  });
+
+  it('maps logical corners by layout direction and lets them win like React Native', () => {
+    const style = {
+      borderTopStartRadius: 8,
+      borderBottomEndRadius: 4,
+      borderTopLeftRadius: 2,
+      borderBottomLeftRadius: 6,
+    };
+
+    expect(splitSquircleStyle(style).adopted).toEqual({
+      topLeftRadius: 8,
+      bottomRightRadius: 4,
+      bottomLeftRadius: 6,
+    });
+    expect(splitSquircleStyle(style, true).adopted).toEqual({
+      topLeftRadius: 2,
+      topRightRadius: 8,
+      bottomLeftRadius: 4,
+    });
+  });
+
+  it('maps logical border sides by layout direction and lets them win', () => {
+    const style = {
+      borderLeftWidth: 1,
+      borderStartWidth: 3,
+      borderEndColor: '#f00',
+      borderRightColor: '#000',
+    };
+
+    expect(splitSquircleStyle(style)).toEqual({
+      adopted: { borderLeftWidth: 3, borderRightColor: '#f00' },
+      style: {},
+    });
+    expect(splitSquircleStyle(style, true).adopted).toEqual({
+      borderLeftWidth: 1,
+      borderRightWidth: 3,
+      borderLeftColor: '#f00',
+      borderRightColor: '#000',
+    });
+  });
+
+  it('reads padding from the style, most specific key last', () => {
+    expect(
+      getStylePadding({
+        padding: 4,
+        paddingVertical: 6,
+        paddingLeft: 8,
+        paddingStart: 10,
+        paddingRight: '5%',
+      }),
+    ).toEqual({ top: 6, bottom: 6, left: 10, right: 4 });
+    expect(getStylePadding({ paddingStart: 10 }, true)).toMatchObject({
+      left: 0,
+      right: 10,
+    });
+  });
+});
+
+describe('getStyleFrame', () => {
+  it('predicts the frame only from numeric width and height', () => {
+    expect(getStyleFrame({ width: 120, height: 80 })).toEqual({
+      width: 120,
+      height: 80,
+    });
+    expect(getStyleFrame({ width: '50%', height: 80 })).toBeNull();
+    expect(getStyleFrame({ flex: 1, height: 80 })).toBeNull();
+    expect(getStyleFrame(undefined)).toBeNull();
+  });
+});
+
+describe('splitContentStyle', () => {
+  it('moves padding and child layout keys to a content view that fills the frame', () => {
+    expect(
+      splitContentStyle({
+        width: 120,
+        margin: 8,
+        paddingHorizontal: 12,
+        flexDirection: 'row',
+        gap: 4,
+        opacity: 0.5,
+      }),
+    ).toEqual({
+      frame: { width: 120, margin: 8, opacity: 0.5 },
+      content: {
+        flexGrow: 1,
+        paddingHorizontal: 12,
+        flexDirection: 'row',
+        gap: 4,
+      },
+    });
+    expect(splitContentStyle(undefined)).toEqual({
+      frame: {},
+      content: { flexGrow: 1 },
+    });
+  });
+});
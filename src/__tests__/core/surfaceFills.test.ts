@@ -0,0 +1,91 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/surfaceFills.test.ts
+ * @description Unit tests for surface images and patterns.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  getImageSourceUri,
+  normalizeSquirclePattern,
+  normalizeSurfaceImage,
+} from '../../core/surfaceFills';
+import { toSquircleSVG } from '../../core/svgDocument';
+import { FRAME } from '../fixtures/squircles';
+
+describe('surface images and patterns', () => {
+  const stripes = { path: 'M 0 0 h 2 v 8 h -2 Z', width: 8, height: 8 };
+
+  it('resolves image fits and drops invisible fills', () => {
+    expect(
+      normalizeSurfaceImage({
+        source: { uri: 'https://example.com/paper.png' },
+        resizeMode: 'tile' as never,
+        tileSize: { width: 0, height: 32 },
+      }),
+    ).toEqual({
+      source: { uri: 'https://example.com/paper.png' },
+      resizeMode: 'cover',
+      tileSize: null,
+      opacity: 1,
+    });
+    expect(normalizeSurfaceImage({ source: 1, opacity: 0 })).toBeNull();
+    expect(
+      normalizeSquirclePattern(
+        { ...stripes, color: { light: '#000', dark: '#fff' }, opacity: 2 },
+        'dark',
+      ),
+    ).toEqual({ ...stripes, color: '#fff', opacity: 1, angle: 0 });
+    expect(
+      normalizeSquirclePattern({ ...stripes, width: 0 }, 'light'),
+    ).toBeNull();
+    expect(
+      normalizeSquirclePattern({ ...stripes, path: ' ' }, 'light'),
+    ).toBeNull();
+  });
+
+  it('reads URIs from remote and local sources only', () => {
+    expect(getImageSourceUri({ uri: 'file:///a.png' })).toBe('file:///a.png');
+    expect(getImageSourceUri([{ uri: 'a.png' }, { uri: 'b.png' }])).toBe(
+      'a.png',
+    );
+    expect(getImageSourceUri(12)).toBeNull();
+  });
+
+  it('paints the image and pattern between the fill and the clipped border', () => {
+    const svg = toSquircleSVG(
+      {
+        baseRadius: 16,
+        smoothFactor: 0.6,
+        surfaceColor: '#fff',
+        surfaceImage: {
+          source: { uri: 'paper.png' },
+          tileSize: { width: 32, height: 32 },
+          opacity: 0.5,
+        },
+        surfacePattern: { ...stripes, angle: 45 },
+        borderWidth: 2,
+      },
+      FRAME,
+    );
+
+    expect(svg).toContain(
+      '<pattern id="squircle-image" patternUnits="userSpaceOnUse" width="32" height="32"><image href="paper.png" width="32" height="32" preserveAspectRatio="xMidYMid slice"/></pattern>',
+    );
+    expect(svg).toContain('patternTransform="rotate(45)"');
+    expect(svg.indexOf('fill="#fff"')).toBeLessThan(
+      svg.indexOf('fill="url(#squircle-image)" fill-opacity="0.5"'),
+    );
+    expect(svg.indexOf('url(#squircle-image)"')).toBeLessThan(
+      svg.indexOf('fill="url(#squircle-pattern)"'),
+    );
+    expect(svg.indexOf('fill="url(#squircle-pattern)"')).toBeLessThan(
+      svg.indexOf('clip-path="url(#squircle-clip)"'),
+    );
+    expect(
+      toSquircleSVG({ smoothFactor: 0.6, surfaceImage: { source: 12 } }, FRAME),
+    ).not.toContain('<pattern');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/svgDocument.test.ts
+ * @description Unit tests for the standalone SVG export.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import type { RoundedSurfaceOptions } from '../../ExpoSquircle.types';
+import { toSquircleSVG } from '../../core/svgDocument';
+import { FRAME, geometryFor } from '../fixtures/squircles';
+
+describe('toSquircleSVG', () => {
+  const options: RoundedSurfaceOptions = {
+    baseRadius: 16,
+    smoothFactor: 0.6,
+    surfaceColor: '#fff',
+    borderColor: '#000',
+    borderWidth: 2,
+  };
+
+  it('renders the fill and an inside-clipped border deterministically', () => {
+    const svg = toSquircleSVG(options, FRAME);
+    const { path } = geometryFor(options);
+
+    expect(svg).toBe(toSquircleSVG(options, FRAME));
+    expect(svg).toContain('viewBox="0 0 120 80"');
+    expect(svg).toContain(`<path d="${path}" fill="#fff"/>`);
+    expect(svg).toContain('<clipPath id="squircle-clip">');
+    expect(svg).toContain('stroke-width="4"');
+    expect(svg).toContain('clip-path="url(#squircle-clip)"');
+  });
+
+  it('widens the viewBox for outside borders and prefixes gradient ids', () => {
+    const svg = toSquircleSVG(
+      {
+        ...options,
+        borderAlignment: 'outside',
+        surfaceColor: {
+          type: 'linear',
+          stops: [
+            { offset: 0, color: '#fff' },
+            { offset: 1, color: '#000' },
+          ],
+        },
+      },
+      { ...FRAME, idPrefix: 'card' },
+    );
+
+    expect(svg).toContain('width="124" height="84" viewBox="-2 -2 124 84"');
+    expect(svg).toContain('<linearGradient id="card-layer-0-fill"');
+    expect(svg).toContain('fill="url(#card-layer-0-fill)"');
+    expect(svg).toContain('clip-path="url(#card-clip-outside)"');
+  });
+
+  it('suffixes the gradient ids of every layer the same way', () => {
+    const gradient = {
+      type: 'linear' as const,
+      stops: [
+        { offset: 0, color: '#fff' },
+        { offset: 1, color: '#000' },
+      ],
+    };
+    const svg = toSquircleSVG(
+      {
+        ...options,
+        layers: [
+          { fill: gradient, stroke: gradient },
+          { fill: gradient, inset: 4 },
+        ],
+      },
+      { ...FRAME, idPrefix: 'card' },
+    );
+    const ids = [...svg.matchAll(/ id="([^"]+)"/g)].map(([, id]) => id);
+
+    expect(ids).toEqual(
+      expect.arrayContaining([
+        'card-layer-0-fill',
+        'card-layer-0-stroke',
+        'card-layer-1-fill',
+      ]),
+    );
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('escapes attribute values and handles empty sizes', () => {
+    expect(
+      toSquircleSVG(
+        { ...options, surfaceColor: 'url("x")' },
+        { width: 10, height: 10 },
+      ),
+    ).toContain('fill="url(&quot;x&quot;)"');
+    expect(toSquircleSVG(options, { width: 0, height: 10 })).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="0" height="0"/>',
+    );
+  });
+
+  it('escapes the id prefix in clip paths and gradients', () => {
+    const svg = toSquircleSVG(
+      {
+        ...options,
+        borderColor: { type: 'radial', stops: [{ offset: 0, color: '#000' }] },
+      },
+      { ...FRAME, idPrefix: 'a"><script>' },
+    );
+
+    expect(svg).not.toContain('<script>');
+    expect(svg).toContain('<clipPath id="a&quot;&gt;&lt;script&gt;-clip">');
+    expect(svg).toContain(
+      '<radialGradient id="a&quot;&gt;&lt;script&gt;-stroke"',
+    );
+  });
+});
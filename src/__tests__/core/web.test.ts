@@ -0,0 +1,70 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/core/web.test.ts
+ * @description Unit tests for the web painting helpers.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import type { RoundedSurfaceOptions } from '../../ExpoSquircle.types';
+import {
+  canPaintSurfaceWithCss,
+  hasSquircleBorder,
+  toCssClipPath,
+} from '../../core/web';
+import { geometryFor, paramsFor } from '../fixtures/squircles';
+
+describe('web painting', () => {
+  it('wraps the squircle path in a CSS path() shape', () => {
+    const geometry = geometryFor({ baseRadius: 16 });
+
+    expect(toCssClipPath(geometry.path)).toBe(`path('${geometry.path}')`);
+  });
+
+  it('paints only solid, shadow-free fills with CSS', () => {
+    expect(canPaintSurfaceWithCss(paramsFor({ surfaceColor: '#fff' }))).toBe(
+      true,
+    );
+    expect(
+      canPaintSurfaceWithCss(
+        paramsFor({
+          surfaceColor: {
+            type: 'linear',
+            stops: [{ offset: 0, color: '#fff' }],
+          },
+        }),
+      ),
+    ).toBe(false);
+    expect(
+      canPaintSurfaceWithCss(
+        paramsFor({
+          shadows: [{ color: '#000', blurRadius: 4 }],
+        }),
+      ),
+    ).toBe(false);
+    expect(
+      canPaintSurfaceWithCss(
+        paramsFor({
+          layers: [{ fill: '#fff' }],
+        }),
+      ),
+    ).toBe(false);
+    expect(
+      canPaintSurfaceWithCss(
+        paramsFor({
+          surfacePattern: { path: 'M 0 0 h 1 v 1 Z', width: 4, height: 4 },
+        }),
+      ),
+    ).toBe(false);
+  });
+
+  it('detects stroked and per-side borders', () => {
+    const borderFor = (params: Partial<RoundedSurfaceOptions>) =>
+      hasSquircleBorder(geometryFor(params));
+
+    expect(borderFor({})).toBe(false);
+    expect(borderFor({ borderWidth: 1 })).toBe(true);
+    expect(borderFor({ borderTopWidth: 1 })).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/fixtures/squircles.ts
+ * @description Shared factories for the squircle unit tests.
+ *
+ * Exports
+ *   - FRAME
+ *   - commandsOf
+ *   - pathInputFor
+ *   - paramsFor
+ *   - geometryFor
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type {
+  RoundedSurfaceOptions,
+  SquirclePathInput,
+} from '../../ExpoSquircle.types';
+import { computeSquircleGeometry } from '../../core/geometry';
+import { normalizeSquircleParams } from '../../core/params';
+import type { MeasuredFrame, SquircleParamsContext } from '../../core/types';
+
+/**
+ * Frame most tests lay their squircle out in.
+ */
+export const FRAME: MeasuredFrame = { width: 120, height: 80 };
+
+/**
+ * Reduces a path to its command letters, to compare path structures.
+ */
+export const commandsOf = (path: string) => path.replace(/[^a-zA-Z]/g, '');
+
+/**
+ * Builds a path input for a 120 × 80 squircle with 20 pt corners and Figma's
+ * default smoothing, with the given overrides.
+ */
+export function pathInputFor(
+  overrides: Partial<SquirclePathInput> = {},
+): SquirclePathInput {
+  return {
+    width: FRAME.width,
+    height: FRAME.height,
+    cornerRadius: 20,
+    cornerSmoothing: 0.6,
+    ...overrides,
+  };
+}
+
+/**
+ * Normalizes squircle options, filling in a smoothing factor of 0.6 unless the
+ * options set their own.
+ */
+export function paramsFor(
+  options: Partial<RoundedSurfaceOptions> = {},
+  context?: SquircleParamsContext,
+) {
+  return normalizeSquircleParams({ smoothFactor: 0.6, ...options }, context);
+}
+
+/**
+ * Computes the geometry of normalized options for a frame, failing the test when
+ * the frame produces none.
+ */
+export function geometryFor(
+  options: Partial<RoundedSurfaceOptions> = {},
+  frame: MeasuredFrame = FRAME,
+  context?: SquircleParamsContext,
+) {
+  const geometry = computeSquircleGeometry(frame, paramsFor(options, context));
+  if (!geometry) {
+    throw new Error('Expected the frame to produce a squircle geometry.');
+  }
+  return geometry;
+}
@@ -0,0 +1,72 @@
+/**
+ * @file packages/expo-squircle/src/__tests__/svgEntry.test.ts
+ * @description Builds the CommonJS `build/node/svg.js` entry and loads it in plain Node.
+ *
+ * Compiling the entry takes several seconds, so the test only runs through
+ * `npm run test:node`, which sets `EXPO_SQUIRCLE_NODE_ENTRY`.
+ *
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import type { RoundedSurfaceOptions } from '../ExpoSquircle.types';
+import { toSquircleSVG } from '../core/svgDocument';
+import { FRAME } from './fixtures/squircles';
+
+const describeNodeEntry = process.env.EXPO_SQUIRCLE_NODE_ENTRY
+  ? describe
+  : describe.skip;
+
+describeNodeEntry('build/node/svg.js', () => {
+  const options: RoundedSurfaceOptions = {
+    baseRadius: 16,
+    smoothFactor: 0.6,
+    surfaceColor: '#fff',
+    borderColor: '#000',
+    borderWidth: 2,
+  };
+
+  it('loads through require and import in plain Node', () => {
+    const outDir = mkdtempSync(join(tmpdir(), 'expo-squircle-'));
+    const root = join(__dirname, '..', '..');
+    try {
+      execFileSync(
+        process.execPath,
+        [
+          require.resolve('typescript/bin/tsc'),
+          '-p',
+          join(root, 'tsconfig.node.json'),
+          '--outDir',
+          outDir,
+        ],
+        { cwd: root },
+      );
+      const entry = join(outDir, 'svg.js');
+      const script = (load: string) =>
+        `${load}.then((svg) => process.stdout.write(svg.toSquircleSVG(${JSON.stringify(
+          options,
+        )}, ${JSON.stringify(FRAME)})))`;
+
+      const required = execFileSync(process.execPath, [
+        '-e',
+        script(`Promise.resolve(require(${JSON.stringify(entry)}))`),
+      ]).toString();
+      const imported = execFileSync(process.execPath, [
+        '--input-type=module',
+        '-e',
+        script(`import(${JSON.stringify(pathToFileURL(entry).href)})`),
+      ]).toString();
+
+      expect(required).toBe(toSquircleSVG(options, FRAME));
+      expect(imported).toBe(required);
+    } finally {
+      rmSync(outDir, { recursive: true, force: true });
+    }
+  }, 120000);
+});
@@ -0,0 +1,34 @@
+/**
+ * @file packages/expo-squircle/src/core/animatable.ts
+ * @description Checks on the animatable options of `AnimatedSquircle`.
+ *
+ * Exports
+ *   - findAnimatedNodeKey
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { AnimatedRoundedSurfaceOptions } from '../ExpoSquircle.types';
+
+/**
+ * Finds the first option holding a React Native `Animated` node, such as an
+ * `Animated.Value` or one of its interpolations. Those nodes keep their value
+ * behind `__getValue()` instead of `.value`, so the UI thread cannot read them.
+ *
+ * @param params Options passed to `AnimatedSquircle`.
+ * @returns string | null Key of the first such option, or null when there is none.
+ */
+export function findAnimatedNodeKey(
+  params: AnimatedRoundedSurfaceOptions,
+): string | null {
+  const key = Object.keys(params).find((name) => {
+    const value: unknown = params[name as keyof AnimatedRoundedSurfaceOptions];
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      typeof (value as { __getValue?: unknown }).__getValue === 'function'
+    );
+  });
+  return key ?? null;
+}
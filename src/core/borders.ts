@@ -0,0 +1,406 @@
+/**
+ * @file packages/expo-squircle/src/core/borders.ts
+ * @description Helpers for per-side borders: option normalization and the band and join geometry they are filled with.
+ *
+ * Exports
+ *   - BORDER_SIDES
+ *   - normalizeBorderSides
+ *   - insetSquirclePathInput
+ *   - computeSideBorders
+ *   - formatSquircleOutline
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type {
+  RoundedSurfaceOptions,
+  SquircleBorderAlignment,
+  SquircleBorderSide,
+  SquircleColorScheme,
+  SquircleCornerName,
+  SquircleGeometry,
+  SquircleSegment,
+} from '../ExpoSquircle.types';
+import { getSquircleGeometry } from './outline';
+import { isSquircleGradient, resolveSchemePaint } from './paint';
+import type {
+  NormalizedBorderSides,
+  NormalizedSquirclePaint,
+  SideInsets,
+  SquirclePathInput,
+  SquircleSideBorders,
+} from './types';
+
+type Point = [number, number];
+
+const SIDE_GRADIENT_ERROR =
+  'ExpoSquircle: Per-side border colors must be plain colors or { light, dark } pairs. Use "borderColor" for gradients.';
+
+export const BORDER_SIDES: SquircleBorderSide[] = [
+  'top',
+  'right',
+  'bottom',
+  'left',
+];
+
+const SIDE_OPTION_KEYS = {
+  top: ['borderTopWidth', 'borderTopColor'],
+  right: ['borderRightWidth', 'borderRightColor'],
+  bottom: ['borderBottomWidth', 'borderBottomColor'],
+  left: ['borderLeftWidth', 'borderLeftColor'],
+} as const;
+
+/**
+ * Resolves per-side border options. Sides without their own width or color inherit
+ * `borderWidth` and `borderColor`.
+ *
+ * @param params Raw squircle options.
+ * @param borderWidth Sanitized shared border width.
+ * @param borderColor Normalized shared border paint.
+ * @param colorScheme Active color scheme for `{ light, dark }` colors.
+ * @returns NormalizedBorderSides | null Per-side borders, or null when no side
+ * option is set or every side ends up without width.
+ * @throws Error when a side color is a gradient.
+ */
+export function normalizeBorderSides(
+  params: Partial<RoundedSurfaceOptions>,
+  borderWidth: number,
+  borderColor: NormalizedSquirclePaint,
+  colorScheme: SquircleColorScheme,
+): NormalizedBorderSides | null {
+  const hasSideOptions = BORDER_SIDES.some((side) =>
+    SIDE_OPTION_KEYS[side].some((key) => params[key] !== undefined),
+  );
+  if (!hasSideOptions) {
+    return null;
+  }
+
+  const sides = {} as NormalizedBorderSides;
+  BORDER_SIDES.forEach((side) => {
+    const [widthKey, colorKey] = SIDE_OPTION_KEYS[side];
+    const width = params[widthKey];
+    const color = resolveSchemePaint(params[colorKey], colorScheme);
+    if (color !== undefined && isSquircleGradient(color)) {
+      throw new Error(SIDE_GRADIENT_ERROR);
+    }
+    sides[side] = {
+      width:
+        typeof width === 'number' && Number.isFinite(width)
+          ? Math.max(0, width)
+          : borderWidth,
+      color: color ?? borderColor,
+    };
+  });
+
+  return BORDER_SIDES.some((side) => sides[side].width > 0) ? sides : null;
+}
+
+/**
+ * Moves every edge of a squircle inward by its own distance (negative values move
+ * it outward). Each corner radius changes by the average of its two edges, which
+ * keeps joins between different widths smooth; square corners stay square.
+ *
+ * @param input Path input of the original shape.
+ * @param insets Distance to move each edge inward.
+ * @returns Inset input plus the offset of its origin, or null when it collapses.
+ */
+export function insetSquirclePathInput(
+  input: SquirclePathInput,
+  insets: SideInsets,
+): { input: SquirclePathInput; x: number; y: number } | null {
+  const width = input.width - insets.left - insets.right;
+  const height = input.height - insets.top - insets.bottom;
+  if (width <= 0 || height <= 0) {
+    return null;
+  }
+
+  const baseRadius = input.cornerRadius ?? 0;
+  const shrink = (
+    radius: number | undefined,
+    first: number,
+    second: number,
+  ) => {
+    const value = radius ?? baseRadius;
+    return value > 0 ? Math.max(0, value - (first + second) / 2) : 0;
+  };
+
+  return {
+    x: insets.left,
+    y: insets.top,
+    input: {
+      ...input,
+      width,
+      height,
+      cornerRadius: 0,
+      topLeftCornerRadius: shrink(
+        input.topLeftCornerRadius,
+        insets.top,
+        insets.left,
+      ),
+      topRightCornerRadius: shrink(
+        input.topRightCornerRadius,
+        insets.top,
+        insets.right,
+      ),
+      bottomRightCornerRadius: shrink(
+        input.bottomRightCornerRadius,
+        insets.bottom,
+        insets.right,
+      ),
+      bottomLeftCornerRadius: shrink(
+        input.bottomLeftCornerRadius,
+        insets.bottom,
+        insets.left,
+      ),
+    },
+  };
+}
+
+/**
+ * Builds the geometry per-side borders are filled with: the band between an outer
+ * and an inner outline, filled with the even-odd rule, and one region per side.
+ * Regions are split at the corner midpoints, along seams that run from the midpoint
+ * of each outer corner to the midpoint of the matching inner corner. Square corners
+ * reduce this to the box-corner diagonals CSS tapers its joins along.
+ *
+ * @param pathInput Path input of the squircle outline.
+ * @param sides Normalized per-side borders.
+ * @param alignment Where the band sits relative to the outline.
+ * @returns SquircleSideBorders Band, canvas outset and side regions.
+ */
+export function computeSideBorders(
+  pathInput: SquirclePathInput,
+  sides: NormalizedBorderSides,
+  alignment: SquircleBorderAlignment,
+): SquircleSideBorders {
+  const outward =
+    alignment === 'outside' ? 1 : alignment === 'center' ? 0.5 : 0;
+  const outset = {} as SideInsets;
+  const inset = {} as SideInsets;
+  BORDER_SIDES.forEach((side) => {
+    outset[side] = sides[side].width * outward;
+    inset[side] = sides[side].width - outset[side];
+  });
+
+  const { width, height } = pathInput;
+  const outer = insetSquirclePathInput(pathInput, {
+    top: -outset.top,
+    right: -outset.right,
+    bottom: -outset.bottom,
+    left: -outset.left,
+  });
+  const inner = insetSquirclePathInput(pathInput, inset);
+  const outerGeometry = outer ? getSquircleGeometry(outer.input) : null;
+  const innerGeometry = inner ? getSquircleGeometry(inner.input) : null;
+  const outerPath =
+    outer && outerGeometry
+      ? formatSegments(outerGeometry.segments, outer.x, outer.y)
+      : '';
+  const innerPath =
+    inner && innerGeometry
+      ? formatSegments(innerGeometry.segments, inner.x, inner.y)
+      : '';
+
+  const x0 = -outset.left;
+  const y0 = -outset.top;
+  const x1 = width + outset.right;
+  const y1 = height + outset.bottom;
+  const [ix0, ix1] = orderedSpan(inset.left, width - inset.right);
+  const [iy0, iy1] = orderedSpan(inset.top, height - inset.bottom);
+
+  const outerMids =
+    outer && outerGeometry
+      ? cornerMidpoints(outerGeometry, outer.x, outer.y)
+      : boxCorners(x0, y0, x1, y1);
+  const innerMids =
+    inner && innerGeometry
+      ? cornerMidpoints(innerGeometry, inner.x, inner.y)
+      : boxCorners(ix0, iy0, ix1, iy1);
+
+  return {
+    bandPath: innerPath ? `${outerPath} ${innerPath}` : outerPath,
+    borderOutset: Math.max(...BORDER_SIDES.map((side) => outset[side])),
+    regions: {
+      top: polygon([
+        [x0, y0],
+        [x1, y0],
+        outerMids.topRight,
+        innerMids.topRight,
+        innerMids.topLeft,
+        outerMids.topLeft,
+      ]),
+      right: polygon([
+        [x1, y0],
+        [x1, y1],
+        outerMids.bottomRight,
+        innerMids.bottomRight,
+        innerMids.topRight,
+        outerMids.topRight,
+      ]),
+      bottom: polygon([
+        [x1, y1],
+        [x0, y1],
+        outerMids.bottomLeft,
+        innerMids.bottomLeft,
+        innerMids.bottomRight,
+        outerMids.bottomRight,
+      ]),
+      left: polygon([
+        [x0, y1],
+        [x0, y0],
+        outerMids.topLeft,
+        innerMids.topLeft,
+        innerMids.bottomLeft,
+        outerMids.bottomLeft,
+      ]),
+    },
+  };
+}
+
+/**
+ * Formats a squircle outline as an absolute SVG path moved by an offset, so it can
+ * be joined with other outlines into one even-odd path.
+ *
+ * @param input Path input of the outline.
+ * @param dx,dy Offset of the outline's origin.
+ * @returns string Absolute SVG path.
+ */
+export function formatSquircleOutline(
+  input: SquirclePathInput,
+  dx: number,
+  dy: number,
+) {
+  return formatSegments(getSquircleGeometry(input).segments, dx, dy);
+}
+
+/**
+ * Finds where every corner curve crosses the diagonal of its corner. Corners are
+ * symmetric about that diagonal and trace the same number of cubics, so the
+ * midpoint is the end of the middle cubic for an even count and the middle of the
+ * middle cubic for an odd one.
+ *
+ * @param geometry Outline of the squircle.
+ * @param dx,dy Offset of the outline's origin.
+ * @returns Midpoint of every corner.
+ */
+function cornerMidpoints(
+  { cubicSegments }: SquircleGeometry,
+  dx: number,
+  dy: number,
+): Record<SquircleCornerName, Point> {
+  // move, then every corner's cubics followed by the edge leaving it, then close.
+  const perCorner = (cubicSegments.length - 6) / 4;
+  const order: SquircleCornerName[] = [
+    'topRight',
+    'bottomRight',
+    'bottomLeft',
+    'topLeft',
+  ];
+  const midpoints = {} as Record<SquircleCornerName, Point>;
+
+  order.forEach((corner, index) => {
+    const first = 1 + index * (perCorner + 1);
+    const middle = first + Math.floor(perCorner / 2);
+    const segment = cubicSegments[middle];
+    const previous = cubicSegments[middle - 1];
+    if (segment.type !== 'cubic' || previous.type === 'close') {
+      return;
+    }
+    const point: Point =
+      perCorner % 2 === 0
+        ? [previous.x, previous.y]
+        : [
+            (previous.x + 3 * segment.x1 + 3 * segment.x2 + segment.x) / 8,
+            (previous.y + 3 * segment.y1 + 3 * segment.y2 + segment.y) / 8,
+          ];
+    midpoints[corner] = [point[0] + dx, point[1] + dy];
+  });
+
+  return midpoints;
+}
+
+/**
+ * Uses the corners of a box in place of corner midpoints, for outlines that
+ * collapsed.
+ */
+function boxCorners(
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+): Record<SquircleCornerName, Point> {
+  return {
+    topLeft: [x0, y0],
+    topRight: [x1, y0],
+    bottomRight: [x1, y1],
+    bottomLeft: [x0, y1],
+  };
+}
+
+/**
+ * Formats absolute segments as an SVG path moved by an offset.
+ */
+function formatSegments(segments: SquircleSegment[], dx: number, dy: number) {
+  return segments.map((segment) => formatSegment(segment, dx, dy)).join(' ');
+}
+
+/**
+ * Formats one absolute segment as an SVG command moved by an offset.
+ */
+function formatSegment(segment: SquircleSegment, dx: number, dy: number) {
+  const point = (x: number, y: number) =>
+    `${formatNumber(x + dx)} ${formatNumber(y + dy)}`;
+
+  switch (segment.type) {
+    case 'move':
+      return `M ${point(segment.x, segment.y)}`;
+    case 'line':
+      return `L ${point(segment.x, segment.y)}`;
+    case 'cubic':
+      return `C ${point(segment.x1, segment.y1)} ${point(
+        segment.x2,
+        segment.y2,
+      )} ${point(segment.x, segment.y)}`;
+    case 'arc': {
+      const radius = formatNumber(segment.radius);
+      return `A ${radius} ${radius} 0 0 1 ${point(segment.x, segment.y)}`;
+    }
+    case 'close':
+      return 'Z';
+  }
+}
+
+/**
+ * Formats a closed polygon, dropping points that repeat the previous or the first
+ * one so collapsed corners leave no zero-length edges.
+ */
+function polygon(points: Point[]) {
+  const pairs: string[] = [];
+  points.forEach(([x, y]) => {
+    const pair = `${formatNumber(x)} ${formatNumber(y)}`;
+    if (pair !== pairs[pairs.length - 1] && pair !== pairs[0]) {
+      pairs.push(pair);
+    }
+  });
+  return `M ${pairs.join(' L ')} Z`;
+}
+
+/**
+ * Returns the span between two edges, collapsing it to its midpoint when the edges
+ * crossed because the borders are wider than the frame.
+ */
+function orderedSpan(start: number, end: number): [number, number] {
+  if (start <= end) {
+    return [start, end];
+  }
+  const middle = (start + end) / 2;
+  return [middle, middle];
+}
+
+/**
+ * Rounds a coordinate to four decimals without trailing zeros.
+ */
+function formatNumber(value: number) {
+  return Number(value.toFixed(4)).toString();
+}
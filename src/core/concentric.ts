@@ -0,0 +1,149 @@
+/**
+ * @file packages/expo-squircle/src/core/concentric.ts
+ * @description Offsets squircles into parallel inner and outer shapes for nested surfaces.
+ *
+ * Exports
+ *   - offsetSquircle
+ *   - concentricSquircleOptions
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type {
+  RoundedSurfaceOptions,
+  SquircleOffset,
+  SquircleRadius,
+} from '../ExpoSquircle.types';
+import { insetSquirclePathInput } from './borders';
+import { buildSquirclePath } from './squircleMath';
+import { resolveCornerBudgets } from './squircleWorklets';
+import type {
+  NormalizedRoundedSurfaceOptions,
+  NormalizedSquircleRadius,
+  SideInsets,
+  SquirclePathInput,
+} from './types';
+
+/**
+ * Moves every edge of a squircle by the same distance and keeps the corners
+ * concentric: each radius changes by the distance after it has been clamped to the
+ * frame, so a radius that was too large for the original frame does not reappear on
+ * the smaller shape. Smoothing and the corner curve carry over; square corners stay
+ * square.
+ *
+ * @param input Path input of the original shape.
+ * @param distance Distance to move outward; negative values inset the shape.
+ * @returns SquircleOffset | null Offset input and path, placed at `x`/`y` relative to
+ * the original frame, or null when an inset collapses the shape.
+ */
+export function offsetSquircle(
+  input: SquirclePathInput,
+  distance: number,
+): SquircleOffset | null {
+  return insetConcentricSquircle(input, {
+    top: -distance,
+    right: -distance,
+    bottom: -distance,
+    left: -distance,
+  });
+}
+
+/**
+ * Derives the shape options of a squircle that fills the padded area of a parent
+ * squircle. Once the parent is measured, every corner gets an absolute radius from
+ * `offsetSquircle`-style insets; before that, absolute radii are shrunk without
+ * clamping and relative radii are kept, which is exact for `'capsule'`.
+ *
+ * @param params Normalized params of the parent.
+ * @param pathInput Path input resolved for the measured or predicted parent size, or
+ * null before layout.
+ * @param insets Padding of the parent on each side.
+ * @returns RoundedSurfaceOptions Radii, smoothing and curve for the inner squircle.
+ */
+export function concentricSquircleOptions(
+  params: NormalizedRoundedSurfaceOptions,
+  pathInput: SquirclePathInput | null,
+  insets: SideInsets,
+): RoundedSurfaceOptions {
+  const shape: RoundedSurfaceOptions = {
+    smoothFactor: params.smoothFactor,
+    topLeftSmoothFactor: params.topLeftSmoothFactor,
+    topRightSmoothFactor: params.topRightSmoothFactor,
+    bottomRightSmoothFactor: params.bottomRightSmoothFactor,
+    bottomLeftSmoothFactor: params.bottomLeftSmoothFactor,
+    preserveSmoothing: params.preserveSmoothing,
+    curve: params.curve,
+    superellipseExponent: params.superellipseExponent,
+    pixelSnapping: params.pixelSnapping,
+  };
+
+  if (!pathInput) {
+    const shrink = (
+      radius: NormalizedSquircleRadius | undefined,
+      first: number,
+      second: number,
+    ): SquircleRadius => {
+      const value = radius ?? params.baseRadius;
+      if (value === 'capsule') {
+        return value;
+      }
+      if (typeof value !== 'number') {
+        return `${value.percent}%`;
+      }
+      return value > 0 ? Math.max(0, value - (first + second) / 2) : 0;
+    };
+
+    return {
+      ...shape,
+      topLeftRadius: shrink(params.topLeftRadius, insets.top, insets.left),
+      topRightRadius: shrink(params.topRightRadius, insets.top, insets.right),
+      bottomRightRadius: shrink(
+        params.bottomRightRadius,
+        insets.bottom,
+        insets.right,
+      ),
+      bottomLeftRadius: shrink(
+        params.bottomLeftRadius,
+        insets.bottom,
+        insets.left,
+      ),
+    };
+  }
+
+  const inner = insetConcentricSquircle(pathInput, insets);
+  return {
+    ...shape,
+    topLeftRadius: inner?.input.topLeftCornerRadius ?? 0,
+    topRightRadius: inner?.input.topRightCornerRadius ?? 0,
+    bottomRightRadius: inner?.input.bottomRightCornerRadius ?? 0,
+    bottomLeftRadius: inner?.input.bottomLeftCornerRadius ?? 0,
+  };
+}
+
+/**
+ * Clamps the radii through the corner budgeting of the path builders, then insets
+ * every edge by its own distance.
+ */
+function insetConcentricSquircle(
+  input: SquirclePathInput,
+  insets: SideInsets,
+): SquircleOffset | null {
+  const budgets = resolveCornerBudgets(input);
+  const inset = insetSquirclePathInput(
+    {
+      ...input,
+      cornerRadius: 0,
+      topLeftCornerRadius: budgets.topLeft.cornerRadius,
+      topRightCornerRadius: budgets.topRight.cornerRadius,
+      bottomRightCornerRadius: budgets.bottomRight.cornerRadius,
+      bottomLeftCornerRadius: budgets.bottomLeft.cornerRadius,
+    },
+    insets,
+  );
+  if (!inset) {
+    return null;
+  }
+
+  return { ...inset, path: buildSquirclePath(inset.input) };
+}
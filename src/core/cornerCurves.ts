@@ -0,0 +1,235 @@
+/**
+ * @file packages/expo-squircle/src/core/cornerCurves.ts
+ * @description Corner curves built from cubic beziers only: Lamé superellipses and Apple's continuous corners.
+ *
+ * Functions are cache-free and declared in dependency order so they can run as
+ * Reanimated worklets, like the ones in `squircleWorklets.ts`.
+ *
+ * Exports
+ *   - DEFAULT_SUPERELLIPSE_EXPONENT
+ *   - usesCubicCorners
+ *   - computeCubicCorner
+ *   - traceCubicCorner
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { SquircleCurve } from '../ExpoSquircle.types';
+import type { BezierPatchInput, CubicCorner } from './types';
+
+export const DEFAULT_SUPERELLIPSE_EXPONENT = 4;
+
+const SUPERELLIPSE_SEGMENTS = 8;
+
+/**
+ * How far Apple's continuous corner reaches along each edge, per unit of radius.
+ */
+const APPLE_CONTINUOUS_EXTENT = 1.52866483;
+
+/**
+ * Control and end points of the three cubics of Apple's continuous corner for a
+ * unit radius, as `[along, across]` pairs: the distance left to the corner vertex
+ * along the incoming edge and the offset toward the outgoing edge.
+ */
+const APPLE_CONTINUOUS_POINTS = [
+  [1.08849323, 0],
+  [0.86840689, 0.02104561],
+  [0.66993427, 0.065496],
+  [0.37282383, 0.18440114],
+  [0.18440055, 0.37282452],
+  [0.06549569, 0.66993493],
+  [0.02104545, 0.86840735],
+  [0, 1.08849323],
+  [0, 1.52866483],
+];
+
+/**
+ * Tells whether a curve is drawn from cubic corners instead of the Figma patch.
+ * `'circular'` is the Figma patch without smoothing.
+ *
+ * @param curve Corner curve of the squircle.
+ * @returns boolean True for `'superellipse'` and `'apple-continuous'`.
+ */
+export function usesCubicCorners(
+  curve: SquircleCurve | undefined,
+): curve is 'superellipse' | 'apple-continuous' {
+  'worklet';
+  return curve === 'superellipse' || curve === 'apple-continuous';
+}
+
+/**
+ * Appends one cubic bezier that follows a circular arc between two angles, in the
+ * local corner frame used by `computeCubicCorner`.
+ */
+function pushArcCubic(
+  points: number[],
+  radius: number,
+  fromAngle: number,
+  toAngle: number,
+) {
+  'worklet';
+  const handle = (4 / 3) * Math.tan((toAngle - fromAngle) / 4) * radius;
+  points.push(
+    radius * Math.sin(fromAngle) + handle * Math.cos(fromAngle),
+    radius * (1 - Math.cos(fromAngle)) + handle * Math.sin(fromAngle),
+    radius * Math.sin(toAngle) - handle * Math.cos(toAngle),
+    radius * (1 - Math.cos(toAngle)) - handle * Math.sin(toAngle),
+    radius * Math.sin(toAngle),
+    radius * (1 - Math.cos(toAngle)),
+  );
+}
+
+/**
+ * Builds Apple's continuous corner, which reaches about 1.53 times the radius along
+ * each edge. When the corner has less room than that, the curve blends toward a
+ * circular arc of the same radius, so capsules keep round ends.
+ */
+function computeAppleContinuousPoints(radius: number, budget: number) {
+  'worklet';
+  const circle: number[] = [];
+  pushArcCubic(circle, radius, 0, Math.PI / 6);
+  pushArcCubic(circle, radius, Math.PI / 6, Math.PI / 3);
+  pushArcCubic(circle, radius, Math.PI / 3, Math.PI / 2);
+
+  const blend = Math.min(
+    1,
+    Math.max(0, (budget - radius) / ((APPLE_CONTINUOUS_EXTENT - 1) * radius)),
+  );
+  const points: number[] = [];
+  APPLE_CONTINUOUS_POINTS.forEach(([along, across], index) => {
+    const u = (APPLE_CONTINUOUS_EXTENT - along) * radius;
+    const v = across * radius;
+    points.push(
+      circle[index * 2] + (u - circle[index * 2]) * blend,
+      circle[index * 2 + 1] + (v - circle[index * 2 + 1]) * blend,
+    );
+  });
+
+  return {
+    p: radius + (APPLE_CONTINUOUS_EXTENT - 1) * radius * blend,
+    points,
+  };
+}
+
+/**
+ * Approximates a quadrant of the Lamé curve `|x/r|^n + |y/r|^n = 1` with cubic
+ * beziers. Samples are spaced evenly by polar angle, and every cubic starts and ends
+ * on the curve along its exact tangent, with handles sized like those of a circular
+ * arc turning by the same angle.
+ */
+function computeSuperellipsePoints(radius: number, exponent: number) {
+  'worklet';
+  const sample = (index: number) => {
+    const polarAngle = (index / SUPERELLIPSE_SEGMENTS) * (Math.PI / 2);
+    const angle =
+      index === SUPERELLIPSE_SEGMENTS
+        ? Math.PI / 2
+        : Math.atan(Math.pow(Math.tan(polarAngle), exponent / 2));
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    const tangentU = Math.pow(cos, 2 - 2 / exponent);
+    const tangentV = Math.pow(sin, 2 - 2 / exponent);
+    const tangentLength = Math.hypot(tangentU, tangentV);
+    return {
+      u: radius * Math.pow(sin, 2 / exponent),
+      v: radius * (1 - Math.pow(cos, 2 / exponent)),
+      tu: tangentU / tangentLength,
+      tv: tangentV / tangentLength,
+    };
+  };
+
+  const points: number[] = [];
+  let from = sample(0);
+  for (let index = 1; index <= SUPERELLIPSE_SEGMENTS; index += 1) {
+    const to = sample(index);
+    const chord = Math.hypot(to.u - from.u, to.v - from.v);
+    const turn = Math.acos(Math.min(1, from.tu * to.tu + from.tv * to.tv));
+    const handle = chord / (3 * Math.pow(Math.cos(turn / 4), 2));
+    points.push(
+      from.u + handle * from.tu,
+      from.v + handle * from.tv,
+      to.u - handle * to.tu,
+      to.v - handle * to.tv,
+      to.u,
+      to.v,
+    );
+    from = to;
+  }
+
+  return { p: radius, points };
+}
+
+/**
+ * Computes a corner as cubic beziers in a local frame whose origin is where the
+ * corner leaves the incoming edge: `u` runs along that edge and `v` toward the
+ * outgoing edge. A superellipse corner spans its radius along each edge. The number
+ * of cubics only depends on the curve, so square corners emit collapsed cubics and
+ * paths keep one command structure.
+ *
+ * @param input Radius and budget resolved by `resolveCornerBudgets`.
+ * @param curve `'superellipse'` or `'apple-continuous'`.
+ * @param exponent Superellipse exponent, at least 2.
+ * @returns CubicCorner Edge length the corner consumes and its cubic points.
+ */
+export function computeCubicCorner(
+  { cornerRadius, roundingAndSmoothingBudget }: BezierPatchInput,
+  curve: SquircleCurve,
+  exponent: number,
+): CubicCorner {
+  'worklet';
+  const count =
+    curve === 'apple-continuous'
+      ? APPLE_CONTINUOUS_POINTS.length * 2
+      : SUPERELLIPSE_SEGMENTS * 6;
+  if (cornerRadius <= 0 || roundingAndSmoothingBudget <= 0) {
+    return { cornerRadius: 0, p: 0, points: new Array(count).fill(0) };
+  }
+
+  const radius = Math.min(cornerRadius, roundingAndSmoothingBudget);
+  const { p, points } =
+    curve === 'apple-continuous'
+      ? computeAppleContinuousPoints(radius, roundingAndSmoothingBudget)
+      : computeSuperellipsePoints(radius, Math.max(2, exponent));
+
+  return { cornerRadius: radius, p, points };
+}
+
+/**
+ * Emits the cubics of a corner as relative SVG commands, mapping the local frame
+ * onto the edge directions of the corner.
+ *
+ * @param corner Corner computed by `computeCubicCorner`.
+ * @param ux,uy Direction of the incoming edge.
+ * @param vx,vy Direction of the outgoing edge.
+ * @param precision Decimal places of the coordinates.
+ * @returns string SVG command string segment.
+ */
+export function traceCubicCorner(
+  { points }: CubicCorner,
+  ux: number,
+  uy: number,
+  vx: number,
+  vy: number,
+  precision: number,
+) {
+  'worklet';
+  const commands: string[] = [];
+  let startU = 0;
+  let startV = 0;
+  const point = (index: number) => {
+    const u = points[index] - startU;
+    const v = points[index + 1] - startV;
+    return `${(u * ux + v * vx).toFixed(precision)} ${(u * uy + v * vy).toFixed(
+      precision,
+    )}`;
+  };
+
+  for (let index = 0; index < points.length; index += 6) {
+    commands.push(`c ${point(index)} ${point(index + 2)} ${point(index + 4)}`);
+    startU = points[index + 4];
+    startV = points[index + 5];
+  }
+
+  return commands.join(' ');
+}
@@ -0,0 +1,36 @@
+/**
+ * @file packages/expo-squircle/src/core/dashes.ts
+ * @description Helpers that fit dash patterns onto closed squircle outlines.
+ *
+ * Exports
+ *   - fitDashPattern
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+/**
+ * Stretches or compresses a dash/gap pair so a whole number of periods covers the
+ * perimeter. The pattern then ends with a full gap exactly where it started, so the
+ * seam at the path's start point never shows a partial dash.
+ *
+ * @param perimeter Length of the closed outline.
+ * @param dashLength Desired dash length (0 draws dots with round caps).
+ * @param gapLength Desired gap length.
+ * @returns number[] | undefined Dash array for SVG, or undefined when no gaps fit.
+ */
+export function fitDashPattern(
+  perimeter: number,
+  dashLength: number,
+  gapLength: number,
+) {
+  const period = dashLength + gapLength;
+  if (!(perimeter > 0) || !(period > 0) || gapLength <= 0) {
+    return undefined;
+  }
+
+  const count = Math.max(1, Math.round(perimeter / period));
+  const scale = perimeter / (count * period);
+
+  return [dashLength * scale, gapLength * scale];
+}
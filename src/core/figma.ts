@@ -0,0 +1,399 @@
+/**
+ * @file packages/expo-squircle/src/core/figma.ts
+ * @description Converts Figma rectangle and frame nodes into squircle options.
+ *
+ * Exports
+ *   - fromFigmaNode
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type {
+  RoundedSurfaceOptions,
+  SquircleBorderAlignment,
+  SquircleFigmaColor,
+  SquircleFigmaEffect,
+  SquircleFigmaImport,
+  SquircleFigmaIssue,
+  SquircleFigmaNode,
+  SquircleFigmaPaint,
+  SquircleGradientStop,
+  SquirclePaint,
+  SquirclePoint,
+  SquircleShadow,
+  SquircleSize,
+} from '../ExpoSquircle.types';
+
+const SUPPORTED_NODE_TYPES = ['RECTANGLE', 'FRAME', 'COMPONENT', 'INSTANCE'];
+
+const STROKE_ALIGNMENTS: Record<string, SquircleBorderAlignment> = {
+  INSIDE: 'inside',
+  CENTER: 'center',
+  OUTSIDE: 'outside',
+};
+
+/**
+ * Gradient-space points of the start, end and second-axis handles. Plugin
+ * `gradientTransform` matrices map node space onto this space.
+ */
+const GRADIENT_HANDLES: Record<string, SquirclePoint[]> = {
+  GRADIENT_LINEAR: [
+    { x: 0, y: 0.5 },
+    { x: 1, y: 0.5 },
+    { x: 0, y: 1 },
+  ],
+  GRADIENT_RADIAL: [
+    { x: 0.5, y: 0.5 },
+    { x: 1, y: 0.5 },
+    { x: 0.5, y: 1 },
+  ],
+};
+
+type IssueReporter = (property: string, reason: string) => void;
+
+/**
+ * Maps a Figma rectangle or frame node, as returned by the REST API or serialized
+ * from the plugin API, to squircle options. Reads corner radii and smoothing, the
+ * topmost visible solid or gradient fill, strokes with their weight, alignment and
+ * dashes, and drop and inner shadows. Anything that has no squircle equivalent is
+ * listed in `unsupported` instead of being dropped silently.
+ *
+ * @param node Parsed node JSON.
+ * @returns SquircleFigmaImport Options, the node size when known, and unsupported properties.
+ */
+export function fromFigmaNode(node: SquircleFigmaNode): SquircleFigmaImport {
+  const unsupported: SquircleFigmaIssue[] = [];
+  const report: IssueReporter = (property, reason) =>
+    unsupported.push({ property, reason });
+
+  if (node.type !== undefined && !SUPPORTED_NODE_TYPES.includes(node.type)) {
+    report('type', `${node.type} nodes are read as rectangles.`);
+  }
+
+  const size = readSize(node);
+  const options: RoundedSurfaceOptions = {
+    ...readRadii(node),
+    smoothFactor: node.cornerSmoothing ?? 0,
+  };
+
+  const fill = readFill(node.fills, 'fills', size, report);
+  if (fill !== undefined) {
+    options.surfaceColor = fill;
+  }
+  Object.assign(options, readStroke(node, size, report));
+
+  const { shadows, insetShadows } = readEffects(node.effects, report);
+  if (shadows.length > 0) {
+    options.shadows = shadows;
+  }
+  if (insetShadows.length > 0) {
+    options.insetShadows = insetShadows;
+  }
+
+  if (typeof node.opacity === 'number' && node.opacity !== 1) {
+    report('opacity', 'Layer opacity is not applied; set it on the component.');
+  }
+  if (
+    typeof node.blendMode === 'string' &&
+    !['PASS_THROUGH', 'NORMAL'].includes(node.blendMode)
+  ) {
+    report('blendMode', `${node.blendMode} blending is not supported.`);
+  }
+  if (typeof node.rotation === 'number' && node.rotation !== 0) {
+    report('rotation', 'Rotation is not applied; transform the component.');
+  }
+  if (node.isMask === true) {
+    report('isMask', 'Masks are not supported; use `clipContent`.');
+  }
+
+  return size ? { options, size, unsupported } : { options, unsupported };
+}
+
+function readSize(node: SquircleFigmaNode): SquircleSize | undefined {
+  if (typeof node.width === 'number' && typeof node.height === 'number') {
+    return { width: node.width, height: node.height };
+  }
+  if (node.size) {
+    return { width: node.size.x, height: node.size.y };
+  }
+  if (node.absoluteBoundingBox) {
+    const { width, height } = node.absoluteBoundingBox;
+    return { width, height };
+  }
+  return undefined;
+}
+
+/**
+ * Reads the shared radius and, when the corners differ, the per-corner radii.
+ * Plugin nodes report a mixed `cornerRadius` as a symbol, which does not survive
+ * JSON serialization, so the individual corners are the source of truth.
+ */
+function readRadii(node: SquircleFigmaNode) {
+  const corners =
+    node.rectangleCornerRadii ??
+    (node.topLeftRadius !== undefined
+      ? [
+          node.topLeftRadius,
+          node.topRightRadius ?? 0,
+          node.bottomRightRadius ?? 0,
+          node.bottomLeftRadius ?? 0,
+        ]
+      : undefined);
+  const baseRadius =
+    typeof node.cornerRadius === 'number'
+      ? node.cornerRadius
+      : corners?.[0] ?? 0;
+
+  if (!corners || corners.every((radius) => radius === baseRadius)) {
+    return { baseRadius };
+  }
+  const [topLeftRadius, topRightRadius, bottomRightRadius, bottomLeftRadius] =
+    corners;
+  return {
+    baseRadius,
+    topLeftRadius,
+    topRightRadius,
+    bottomRightRadius,
+    bottomLeftRadius,
+  };
+}
+
+/**
+ * Figma paints are listed bottom to top. Only the topmost visible paint is kept,
+ * since a squircle surface or border has a single paint.
+ */
+function readFill(
+  paints: SquircleFigmaPaint[] | undefined,
+  property: string,
+  size: SquircleSize | undefined,
+  report: IssueReporter,
+) {
+  const visible = (paints ?? [])
+    .map((paint, index) => ({ paint, index }))
+    .filter(({ paint }) => paint.visible !== false);
+  if (visible.length === 0) {
+    return undefined;
+  }
+
+  const top = visible[visible.length - 1];
+  visible.slice(0, -1).forEach(({ index }) => {
+    report(`${property}[${index}]`, 'Only the topmost visible paint is used.');
+  });
+  return readPaint(top.paint, `${property}[${top.index}]`, size, report);
+}
+
+function readPaint(
+  paint: SquircleFigmaPaint,
+  property: string,
+  size: SquircleSize | undefined,
+  report: IssueReporter,
+): SquirclePaint | undefined {
+  if (paint.blendMode !== undefined && paint.blendMode !== 'NORMAL') {
+    report(
+      `${property}.blendMode`,
+      `${paint.blendMode} blending is not supported.`,
+    );
+  }
+  const opacity = paint.opacity ?? 1;
+
+  if (paint.type === 'SOLID' && paint.color) {
+    return toColor(paint.color, opacity);
+  }
+
+  const handles = readGradientHandles(paint);
+  if (!handles) {
+    report(property, `${paint.type} paints are not supported.`);
+    return undefined;
+  }
+  const stops: SquircleGradientStop[] = (paint.gradientStops ?? []).map(
+    (stop) => {
+      const alpha = (stop.color.a ?? 1) * opacity;
+      return alpha < 1
+        ? { offset: stop.position, color: toHex(stop.color), opacity: alpha }
+        : { offset: stop.position, color: toHex(stop.color) };
+    },
+  );
+  const [start, end, secondary] = handles;
+
+  if (paint.type === 'GRADIENT_LINEAR') {
+    return { type: 'linear', stops, start, end };
+  }
+
+  const width = size?.width ?? 1;
+  const height = size?.height ?? 1;
+  const radiusX = Math.hypot(
+    (end.x - start.x) * width,
+    (end.y - start.y) * height,
+  );
+  const radiusY = Math.hypot(
+    (secondary.x - start.x) * width,
+    (secondary.y - start.y) * height,
+  );
+  if (Math.abs(radiusX - radiusY) > Math.max(radiusX, radiusY) * 0.01) {
+    report(property, 'Elliptical radial gradients are drawn as circles.');
+  }
+  const farthestCorner = Math.max(
+    ...[
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 1],
+    ].map(([x, y]) =>
+      Math.hypot((x - start.x) * width, (y - start.y) * height),
+    ),
+  );
+  return {
+    type: 'radial',
+    stops,
+    center: start,
+    radius: farthestCorner > 0 ? radiusX / farthestCorner : 1,
+  };
+}
+
+/**
+ * Returns the start, end and second-axis handles of a linear or radial gradient
+ * in node space, from REST handle positions or by inverting a plugin transform.
+ */
+function readGradientHandles(paint: SquircleFigmaPaint) {
+  const gradientHandles = GRADIENT_HANDLES[paint.type];
+  if (!gradientHandles) {
+    return null;
+  }
+  if (paint.gradientHandlePositions?.length === 3) {
+    return paint.gradientHandlePositions.map(({ x, y }) => ({ x, y }));
+  }
+
+  const transform = paint.gradientTransform;
+  if (!transform || transform.length < 2) {
+    return null;
+  }
+  const [[a, b, c], [d, e, f]] = transform;
+  const determinant = a * e - b * d;
+  if (determinant === 0) {
+    return null;
+  }
+  return gradientHandles.map(({ x, y }) => ({
+    x: (e * (x - c) - b * (y - f)) / determinant,
+    y: (a * (y - f) - d * (x - c)) / determinant,
+  }));
+}
+
+function readStroke(
+  node: SquircleFigmaNode,
+  size: SquircleSize | undefined,
+  report: IssueReporter,
+): Partial<RoundedSurfaceOptions> {
+  const borderColor = readFill(node.strokes, 'strokes', size, report);
+  if (borderColor === undefined) {
+    return {};
+  }
+
+  const stroke: Partial<RoundedSurfaceOptions> = {
+    borderColor,
+    borderWidth: node.strokeWeight ?? 1,
+  };
+  if (node.strokeAlign !== undefined) {
+    const alignment = STROKE_ALIGNMENTS[node.strokeAlign];
+    if (alignment) {
+      stroke.borderAlignment = alignment;
+    } else {
+      report('strokeAlign', `${node.strokeAlign} is not a stroke alignment.`);
+    }
+  }
+
+  const sideWeights =
+    node.individualStrokeWeights ??
+    (node.strokeTopWeight !== undefined
+      ? {
+          top: node.strokeTopWeight,
+          right: node.strokeRightWeight ?? 0,
+          bottom: node.strokeBottomWeight ?? 0,
+          left: node.strokeLeftWeight ?? 0,
+        }
+      : undefined);
+  const hasSideWeights =
+    sideWeights !== undefined &&
+    Object.values(sideWeights).some((weight) => weight !== stroke.borderWidth);
+  if (sideWeights && hasSideWeights) {
+    stroke.borderTopWidth = sideWeights.top;
+    stroke.borderRightWidth = sideWeights.right;
+    stroke.borderBottomWidth = sideWeights.bottom;
+    stroke.borderLeftWidth = sideWeights.left;
+  }
+
+  const dashesProperty = node.strokeDashes ? 'strokeDashes' : 'dashPattern';
+  const dashes = node.strokeDashes ?? node.dashPattern ?? [];
+  if (dashes.length > 0) {
+    if (hasSideWeights) {
+      report(dashesProperty, 'Per-side stroke weights are drawn solid.');
+    } else {
+      stroke.borderStyle = 'dashed';
+      stroke.borderDashLength = dashes[0];
+      stroke.borderGapLength = dashes[1] ?? dashes[0];
+      if (dashes.length > 2) {
+        report(dashesProperty, 'Only the first dash and gap are used.');
+      }
+    }
+  }
+  return stroke;
+}
+
+function readEffects(
+  effects: SquircleFigmaEffect[] | undefined,
+  report: IssueReporter,
+) {
+  const shadows: SquircleShadow[] = [];
+  const insetShadows: SquircleShadow[] = [];
+
+  (effects ?? []).forEach((effect, index) => {
+    if (effect.visible === false) {
+      return;
+    }
+    const property = `effects[${index}]`;
+    if (effect.type !== 'DROP_SHADOW' && effect.type !== 'INNER_SHADOW') {
+      report(property, `${effect.type} effects are not supported.`);
+      return;
+    }
+    if (effect.blendMode !== undefined && effect.blendMode !== 'NORMAL') {
+      report(
+        `${property}.blendMode`,
+        `${effect.blendMode} blending is not supported.`,
+      );
+    }
+
+    const color = effect.color ?? { r: 0, g: 0, b: 0, a: 0.25 };
+    const shadow: SquircleShadow = {
+      offsetX: effect.offset?.x ?? 0,
+      offsetY: effect.offset?.y ?? 0,
+      blurRadius: effect.radius ?? 0,
+      spread: effect.spread ?? 0,
+      color: toHex(color),
+      opacity: color.a ?? 1,
+    };
+    (effect.type === 'DROP_SHADOW' ? shadows : insetShadows).push(shadow);
+  });
+
+  return { shadows, insetShadows };
+}
+
+function toChannel(value: number) {
+  return Math.round(Math.min(1, Math.max(0, value)) * 255);
+}
+
+function toHex({ r, g, b }: SquircleFigmaColor) {
+  return `#${[r, g, b]
+    .map((value) => toChannel(value).toString(16).padStart(2, '0'))
+    .join('')}`;
+}
+
+function toColor(color: SquircleFigmaColor, opacity: number) {
+  const alpha = (color.a ?? 1) * opacity;
+  if (alpha >= 1) {
+    return toHex(color);
+  }
+  const { r, g, b } = color;
+  return `rgba(${toChannel(r)}, ${toChannel(g)}, ${toChannel(b)}, ${
+    Math.round(alpha * 1000) / 1000
+  })`;
+}
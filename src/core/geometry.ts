@@ -0,0 +1,280 @@
+/**
+ * @file packages/expo-squircle/src/core/geometry.ts
+ * @description Derives the render geometry (path, stroke and canvas outset) for a measured squircle.
+ *
+ * Exports
+ *   - computeSquircleGeometry
+ *   - resolveSquirclePathInput
+ *   - prewarmSquirclePaths
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type {
+  RoundedSurfaceOptions,
+  SquircleSize,
+} from '../ExpoSquircle.types';
+import { computeSideBorders } from './borders';
+import { fitDashPattern } from './dashes';
+import { computeLayerGeometry, computeLayerOutset } from './layers';
+import { normalizeSquircleParams } from './params';
+import {
+  pathPrecisionForPixelRatio,
+  snapBorderWidth,
+  snapToPixel,
+} from './pixels';
+import { resolveSquircleRadius } from './radii';
+import { spreadSquirclePathInput } from './shadows';
+import { buildSquirclePath, measureSquirclePath } from './squircleMath';
+import type {
+  MeasuredFrame,
+  NormalizedBorderSide,
+  NormalizedRoundedSurfaceOptions,
+  NormalizedSquircleRadius,
+  SquircleRenderGeometry,
+  SquirclePathInput,
+  SquircleStroke,
+} from './types';
+
+/**
+ * Builds the squircle outline for a measured frame together with the stroke the
+ * border is drawn with and the paths of every layer. With `pixelSnapping`, the frame,
+ * border and layer widths and the canvas outset are rounded to device pixels and the
+ * path precision follows the density.
+ *
+ * @param frame Measured layout size, or null before the first layout pass.
+ * @param params Normalized squircle params.
+ * @returns SquircleRenderGeometry | null Geometry, or null when the frame is empty.
+ */
+export function computeSquircleGeometry(
+  frame: MeasuredFrame | null,
+  params: NormalizedRoundedSurfaceOptions,
+): SquircleRenderGeometry | null {
+  if (!frame || frame.width <= 0 || frame.height <= 0) {
+    return null;
+  }
+
+  const { pixelSnapping, pixelRatio } = params;
+  const pathInput = resolveSquirclePathInput(frame, params);
+  const { width, height } = pathInput;
+  const strokeParams = pixelSnapping ? snapBorderParams(params) : params;
+
+  const path = buildSquirclePath(pathInput);
+  const stroke = resolveBorderStroke(strokeParams, path, pathInput);
+  const borderOutset = Math.max(
+    stroke.borderOutset,
+    computeLayerOutset(strokeParams.layers),
+  );
+
+  return {
+    width,
+    height,
+    path,
+    pathInput,
+    layers: strokeParams.layers.map((layer) =>
+      layer.type === 'paint'
+        ? computeLayerGeometry(pathInput, path, layer)
+        : null,
+    ),
+    ...stroke,
+    borderOutset: pixelSnapping
+      ? Math.ceil(borderOutset * pixelRatio) / pixelRatio
+      : borderOutset,
+  };
+}
+
+/**
+ * Resolves the path input of a squircle for a measured frame: relative radii become
+ * logical pixels and, with `pixelSnapping`, the frame is rounded to device pixels.
+ *
+ * @param frame Measured layout size.
+ * @param params Normalized squircle params.
+ * @returns SquirclePathInput Input for the path builders.
+ */
+export function resolveSquirclePathInput(
+  frame: MeasuredFrame,
+  params: NormalizedRoundedSurfaceOptions,
+): SquirclePathInput {
+  const { pixelSnapping, pixelRatio } = params;
+  const width = pixelSnapping
+    ? snapToPixel(frame.width, pixelRatio)
+    : frame.width;
+  const height = pixelSnapping
+    ? snapToPixel(frame.height, pixelRatio)
+    : frame.height;
+
+  const resolveRadius = (radius: NormalizedSquircleRadius | undefined) =>
+    resolveSquircleRadius(radius, width, height);
+
+  return {
+    width,
+    height,
+    cornerRadius: resolveRadius(params.baseRadius),
+    topLeftCornerRadius: resolveRadius(params.topLeftRadius),
+    topRightCornerRadius: resolveRadius(params.topRightRadius),
+    bottomRightCornerRadius: resolveRadius(params.bottomRightRadius),
+    bottomLeftCornerRadius: resolveRadius(params.bottomLeftRadius),
+    cornerSmoothing: params.smoothFactor,
+    topLeftCornerSmoothing: params.topLeftSmoothFactor,
+    topRightCornerSmoothing: params.topRightSmoothFactor,
+    bottomRightCornerSmoothing: params.bottomRightSmoothFactor,
+    bottomLeftCornerSmoothing: params.bottomLeftSmoothFactor,
+    preserveSmoothing: params.preserveSmoothing,
+    curve: params.curve,
+    superellipseExponent: params.superellipseExponent,
+    precision: pixelSnapping
+      ? pathPrecisionForPixelRatio(pixelRatio)
+      : undefined,
+  };
+}
+
+/**
+ * Rounds the shared and per-side border widths, plus the stroke widths and insets of
+ * layers, to whole device pixels.
+ */
+function snapBorderParams(
+  params: NormalizedRoundedSurfaceOptions,
+): NormalizedRoundedSurfaceOptions {
+  const { borderSides, pixelRatio } = params;
+  const snapSide = (side: NormalizedBorderSide) => ({
+    ...side,
+    width: snapBorderWidth(side.width, pixelRatio),
+  });
+
+  return {
+    ...params,
+    borderWidth: snapBorderWidth(params.borderWidth, pixelRatio),
+    borderSides: borderSides && {
+      top: snapSide(borderSides.top),
+      right: snapSide(borderSides.right),
+      bottom: snapSide(borderSides.bottom),
+      left: snapSide(borderSides.left),
+    },
+    layers: params.layers.map((layer) =>
+      layer.type === 'paint'
+        ? {
+            ...layer,
+            strokeWidth: snapBorderWidth(layer.strokeWidth, pixelRatio),
+            inset: snapToPixel(layer.inset, pixelRatio),
+          }
+        : layer,
+    ),
+  };
+}
+
+/**
+ * Fills the path caches for sizes known up front, such as fixed card sizes, so the
+ * first render of those squircles reuses cached paths.
+ *
+ * @param sizes Frame sizes the squircles will be laid out at.
+ * @param options Squircle options the squircles will be drawn with.
+ * @throws Error when the options are invalid.
+ */
+export function prewarmSquirclePaths(
+  sizes: SquircleSize[],
+  options: RoundedSurfaceOptions,
+) {
+  const params = normalizeSquircleParams(options);
+  sizes.forEach((size) => computeSquircleGeometry(size, params));
+}
+
+/**
+ * Maps the border alignment and style onto the stroke drawn over the shared path.
+ * Inside and outside borders stroke twice the width and clip away the half that
+ * falls on the wrong side of the path; centered borders straddle it. Dotted borders
+ * instead stroke the centerline of the visible band unclipped so every dot stays
+ * round. Per-side borders are filled as a band rather than stroked. Anything that
+ * paints past the path extends the canvas instead of the layout box.
+ *
+ * @param params Normalized squircle params.
+ * @param path Path of the squircle outline.
+ * @param pathInput Inputs the outline was built from.
+ * @returns SquircleStroke Stroke description consumed by the backdrop.
+ */
+function resolveBorderStroke(
+  params: NormalizedRoundedSurfaceOptions,
+  path: string,
+  pathInput: SquirclePathInput,
+): SquircleStroke {
+  const { borderWidth, borderAlignment, borderStyle, borderSides } = params;
+
+  if (borderSides) {
+    const sideBorders = computeSideBorders(
+      pathInput,
+      borderSides,
+      borderAlignment,
+    );
+    return {
+      strokeCommandWidth: 0,
+      borderOutset: sideBorders.borderOutset,
+      strokePath: path,
+      strokeClip: 'none',
+      sideBorders,
+    };
+  }
+
+  const borderOutset =
+    borderAlignment === 'center'
+      ? borderWidth / 2
+      : borderAlignment === 'outside'
+      ? borderWidth
+      : 0;
+
+  if (borderWidth <= 0) {
+    return {
+      strokeCommandWidth: 0,
+      borderOutset,
+      strokePath: path,
+      strokeClip: 'none',
+    };
+  }
+
+  if (borderStyle === 'dotted') {
+    const spread =
+      borderAlignment === 'center'
+        ? 0
+        : borderAlignment === 'outside'
+        ? borderWidth / 2
+        : -borderWidth / 2;
+    const centerlineInput = spreadSquirclePathInput(pathInput, spread);
+    if (!centerlineInput) {
+      return {
+        strokeCommandWidth: 0,
+        borderOutset,
+        strokePath: path,
+        strokeClip: 'none',
+      };
+    }
+
+    return {
+      strokeCommandWidth: borderWidth,
+      borderOutset,
+      strokePath: buildSquirclePath(centerlineInput),
+      strokeOffset: -spread,
+      strokeClip: 'none',
+      strokeDashArray: fitDashPattern(
+        measureSquirclePath(centerlineInput),
+        0,
+        borderWidth + params.borderGapLength,
+      ),
+      strokeLineCap: 'round',
+    };
+  }
+
+  return {
+    strokeCommandWidth:
+      borderAlignment === 'center' ? borderWidth : borderWidth * 2,
+    borderOutset,
+    strokePath: path,
+    strokeClip: borderAlignment === 'center' ? 'none' : borderAlignment,
+    strokeDashArray:
+      borderStyle === 'dashed'
+        ? fitDashPattern(
+            measureSquirclePath(pathInput),
+            params.borderDashLength,
+            params.borderGapLength,
+          )
+        : undefined,
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * @file packages/expo-squircle/src/core/hitTest.ts
+ * @description Point-in-shape test against the structured squircle outline.
+ *
+ * Exports
+ *   - pointInSquircle
+ *   - isTouchOutsideSquircle
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { SquircleGeometry } from '../ExpoSquircle.types';
+
+/**
+ * Number of straight pieces each cubic is flattened into. Corner curves are short,
+ * so this keeps the polygon well within a tenth of a point of the true outline.
+ */
+const CUBIC_SUBDIVISIONS = 8;
+
+const POLYGON_CACHE = new WeakMap<SquircleGeometry, number[]>();
+
+/**
+ * Checks whether a point lies inside the squircle outline. Points exactly on the
+ * outline count as inside.
+ *
+ * @param geometry Geometry returned by `getSquircleGeometry`.
+ * @param x Horizontal coordinate relative to the squircle's top-left corner.
+ * @param y Vertical coordinate relative to the squircle's top-left corner.
+ * @returns boolean True when the point is inside the shape.
+ */
+export function pointInSquircle(
+  geometry: SquircleGeometry,
+  x: number,
+  y: number,
+) {
+  if (
+    !Number.isFinite(x) ||
+    !Number.isFinite(y) ||
+    x < 0 ||
+    y < 0 ||
+    x > geometry.width ||
+    y > geometry.height
+  ) {
+    return false;
+  }
+
+  const polygon = getPolygon(geometry);
+  const count = polygon.length / 2;
+  let inside = false;
+
+  for (let i = 0, j = count - 1; i < count; j = i, i += 1) {
+    const xi = polygon[i * 2];
+    const yi = polygon[i * 2 + 1];
+    const xj = polygon[j * 2];
+    const yj = polygon[j * 2 + 1];
+
+    if (isOnSegment(x, y, xi, yi, xj, yj)) {
+      return true;
+    }
+
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Decides whether a touch on a view covering the squircle frame starts outside the
+ * outline. Only the target-relative location is read: it is computed for the touch
+ * itself, so it stays correct after the view scrolls or moves without a relayout,
+ * unlike page coordinates paired with a measured origin.
+ *
+ * @param geometry Geometry returned by `getSquircleGeometry`.
+ * @param touch Native touch whose target is the view covering the frame.
+ * @returns boolean True when the touch should not reach the squircle.
+ */
+export function isTouchOutsideSquircle(
+  geometry: SquircleGeometry,
+  { locationX, locationY }: { locationX: number; locationY: number },
+) {
+  return !pointInSquircle(geometry, locationX, locationY);
+}
+
+/**
+ * Flattens the cubic outline into a flat `[x0, y0, x1, y1, ...]` polygon, caching
+ * the result per geometry object so repeated touches reuse it.
+ *
+ * @param geometry Structured squircle geometry.
+ * @returns number[] Polygon vertices.
+ */
+function getPolygon(geometry: SquircleGeometry) {
+  const cached = POLYGON_CACHE.get(geometry);
+  if (cached) {
+    return cached;
+  }
+
+  const polygon: number[] = [];
+  let currentX = 0;
+  let currentY = 0;
+
+  geometry.cubicSegments.forEach((segment) => {
+    if (segment.type === 'close') {
+      return;
+    }
+
+    if (segment.type === 'move') {
+      polygon.push(segment.x, segment.y);
+    } else {
+      for (let step = 1; step <= CUBIC_SUBDIVISIONS; step += 1) {
+        const t = step / CUBIC_SUBDIVISIONS;
+        const mt = 1 - t;
+        const w0 = mt * mt * mt;
+        const w1 = 3 * mt * mt * t;
+        const w2 = 3 * mt * t * t;
+        const w3 = t * t * t;
+        polygon.push(
+          w0 * currentX + w1 * segment.x1 + w2 * segment.x2 + w3 * segment.x,
+          w0 * currentY + w1 * segment.y1 + w2 * segment.y2 + w3 * segment.y,
+        );
+      }
+    }
+
+    currentX = segment.x;
+    currentY = segment.y;
+  });
+
+  POLYGON_CACHE.set(geometry, polygon);
+  return polygon;
+}
+
+/**
+ * Checks whether a point lies on the segment between two vertices.
+ */
+function isOnSegment(
+  x: number,
+  y: number,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+) {
+  const cross = (x - x1) * (y2 - y1) - (y - y1) * (x2 - x1);
+  if (Math.abs(cross) > 1e-9) {
+    return false;
+  }
+  return (
+    x >= Math.min(x1, x2) &&
+    x <= Math.max(x1, x2) &&
+    y >= Math.min(y1, y2) &&
+    y <= Math.max(y1, y2)
+  );
+}
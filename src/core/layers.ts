@@ -0,0 +1,174 @@
+/**
+ * @file packages/expo-squircle/src/core/layers.ts
+ * @description Helpers that validate surface layers and derive the paths they are painted with.
+ *
+ * Exports
+ *   - normalizeSquircleLayers
+ *   - normalizeBlendMode
+ *   - computeLayerGeometry
+ *   - computeLayerOutset
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type {
+  SquircleBlendMode,
+  SquircleColorScheme,
+  SquircleLayer,
+  SquirclePaint,
+} from '../ExpoSquircle.types';
+import { formatSquircleOutline } from './borders';
+import { offsetSquircle } from './concentric';
+import { sanitizeNumber } from './numbers';
+import { normalizeSquirclePaint, resolveSchemePaint } from './paint';
+import type {
+  NormalizedPaintLayer,
+  NormalizedSquircleLayer,
+  NormalizedSquirclePaint,
+  SquircleLayerGeometry,
+  SquirclePathInput,
+} from './types';
+
+const BLEND_MODES: SquircleBlendMode[] = [
+  'normal',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+  'difference',
+  'exclusion',
+  'hue',
+  'saturation',
+  'color',
+  'luminosity',
+];
+
+/**
+ * Resolves the layers a squircle is painted with. Without `layers`, the surface
+ * fill and the border form the two default layers.
+ *
+ * @param layers Raw layers supplied by the caller.
+ * @param surfaceColor Normalized surface paint, used by the default fill layer.
+ * @param colorScheme Active color scheme for `{ light, dark }` paints.
+ * @param hairlineWidth Width that `strokeWidth: 'hairline'` resolves to.
+ * @returns NormalizedSquircleLayer[] Layers in paint order, without invisible ones.
+ * @throws Error when a gradient paint has no stops.
+ */
+export function normalizeSquircleLayers(
+  layers: SquircleLayer[] | undefined,
+  surfaceColor: NormalizedSquirclePaint,
+  colorScheme: SquircleColorScheme,
+  hairlineWidth: number,
+): NormalizedSquircleLayer[] {
+  if (!Array.isArray(layers)) {
+    return [
+      {
+        type: 'paint',
+        fill: surfaceColor,
+        stroke: null,
+        strokeWidth: 0,
+        opacity: 1,
+        blendMode: 'normal',
+        inset: 0,
+      },
+      { type: 'border' },
+    ];
+  }
+
+  return layers
+    .filter((layer): layer is SquircleLayer => Boolean(layer))
+    .map((layer): NormalizedPaintLayer => {
+      const strokeWidth =
+        layer.strokeWidth === 'hairline'
+          ? hairlineWidth
+          : Math.max(0, sanitizeNumber(layer.strokeWidth, 1));
+      return {
+        type: 'paint',
+        fill: normalizeLayerPaint(resolveSchemePaint(layer.fill, colorScheme)),
+        stroke:
+          strokeWidth > 0
+            ? normalizeLayerPaint(resolveSchemePaint(layer.stroke, colorScheme))
+            : null,
+        strokeWidth,
+        opacity: Math.min(1, Math.max(0, sanitizeNumber(layer.opacity, 1))),
+        blendMode: normalizeBlendMode(layer.blendMode),
+        inset: sanitizeNumber(layer.inset, 0),
+      };
+    })
+    .filter(
+      (layer) =>
+        layer.opacity > 0 && (layer.fill !== null || layer.stroke !== null),
+    );
+}
+
+/**
+ * Resolves a blend mode, falling back to normal blending for unknown values.
+ *
+ * @param value Blend mode requested by the caller.
+ * @returns SquircleBlendMode Supported blend mode.
+ */
+export function normalizeBlendMode(
+  value: SquircleBlendMode | undefined,
+): SquircleBlendMode {
+  return value && BLEND_MODES.includes(value) ? value : 'normal';
+}
+
+/**
+ * Builds the paths of a paint layer. The outline is offset concentrically like
+ * `offsetSquircle`; layers without an inset reuse the squircle path itself.
+ *
+ * @param pathInput Path input of the squircle outline.
+ * @param path Path of the squircle outline.
+ * @param layer Normalized paint layer.
+ * @returns SquircleLayerGeometry Fill and stroke paths of the layer.
+ */
+export function computeLayerGeometry(
+  pathInput: SquirclePathInput,
+  path: string,
+  { fill, stroke, strokeWidth, inset }: NormalizedPaintLayer,
+): SquircleLayerGeometry {
+  const outline = (distance: number) => {
+    if (distance === 0) {
+      return path;
+    }
+    const offset = offsetSquircle(pathInput, -distance);
+    return offset
+      ? formatSquircleOutline(offset.input, offset.x, offset.y)
+      : null;
+  };
+
+  const outer = outline(inset);
+  const inner = stroke !== null && outer ? outline(inset + strokeWidth) : null;
+
+  return {
+    fillPath: fill !== null ? outer : null,
+    strokePath:
+      stroke !== null && outer ? (inner ? `${outer} ${inner}` : outer) : null,
+  };
+}
+
+/**
+ * Computes how far layers with a negative inset paint beyond the measured frame.
+ *
+ * @param layers Normalized layers.
+ * @returns number Outset in logical pixels.
+ */
+export function computeLayerOutset(layers: NormalizedSquircleLayer[]) {
+  return layers.reduce(
+    (outset, layer) =>
+      layer.type === 'paint' ? Math.max(outset, -layer.inset) : outset,
+    0,
+  );
+}
+
+function normalizeLayerPaint(paint: SquirclePaint | undefined) {
+  return paint === undefined || paint === null
+    ? null
+    : normalizeSquirclePaint(paint, '#000');
+}
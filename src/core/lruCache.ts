@@ -0,0 +1,84 @@
+/**
+ * @file packages/expo-squircle/src/core/lruCache.ts
+ * @description Bounded least-recently-used cache with hit, miss and eviction counters.
+ *
+ * Exports
+ *   - LruCache
+ *   - createLruCache
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { SquircleCacheCounters } from '../ExpoSquircle.types';
+
+export type LruCache<V> = {
+  get: (key: string) => V | undefined;
+  set: (key: string, value: V) => void;
+  setLimit: (limit: number) => void;
+  clear: () => void;
+  stats: () => SquircleCacheCounters;
+};
+
+/**
+ * Creates a cache that keeps at most `limit` entries and evicts the one read or
+ * written longest ago. Relies on `Map` iterating in insertion order: every access
+ * re-inserts its entry, so the first key is always the least recently used.
+ *
+ * @param limit Maximum number of entries; 0 disables caching.
+ * @returns LruCache<V> Cache instance.
+ */
+export function createLruCache<V>(limit: number): LruCache<V> {
+  const entries = new Map<string, V>();
+  let maxSize = limit;
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  const evictOverflow = () => {
+    while (entries.size > maxSize) {
+      const oldest = entries.keys().next();
+      if (oldest.done) {
+        return;
+      }
+      entries.delete(oldest.value);
+      evictions += 1;
+    }
+  };
+
+  return {
+    get(key) {
+      const value = entries.get(key);
+      if (value === undefined) {
+        misses += 1;
+        return undefined;
+      }
+      hits += 1;
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      evictOverflow();
+    },
+    setLimit(nextLimit) {
+      maxSize = nextLimit;
+      evictOverflow();
+    },
+    clear() {
+      entries.clear();
+      hits = 0;
+      misses = 0;
+      evictions = 0;
+    },
+    stats: () => ({
+      size: entries.size,
+      limit: maxSize,
+      hits,
+      misses,
+      evictions,
+    }),
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * @file packages/expo-squircle/src/core/numbers.ts
+ * @description Numeric helpers shared by the params, shadow, layer and surface fill normalizers.
+ *
+ * Exports
+ *   - clamp
+ *   - sanitizeNumber
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+/**
+ * Clamps a numeric value between the provided range.
+ *
+ * @param value Number to clamp.
+ * @param min Minimal allowed value.
+ * @param max Maximum allowed value.
+ * @returns number Value coerced into the [min, max] range.
+ */
+export function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Returns the value when it is a finite number, otherwise the fallback.
+ *
+ * @param value Number supplied by the caller.
+ * @param fallback Value used when `value` is missing or not finite.
+ * @returns number Finite number.
+ */
+export function sanitizeNumber(value: number | undefined, fallback: number) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
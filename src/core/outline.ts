@@ -0,0 +1,298 @@
+/**
+ * @file packages/expo-squircle/src/core/outline.ts
+ * @description Structured squircle outline for renderers that consume segments instead of SVG strings.
+ *
+ * Exports
+ *   - getSquircleGeometry
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type {
+  BezierPatch,
+  SquircleCornerGeometry,
+  SquircleCubicSegment,
+  SquircleGeometry,
+  SquirclePathInput,
+  SquircleSegment,
+} from '../ExpoSquircle.types';
+import {
+  computeCubicCorner,
+  DEFAULT_SUPERELLIPSE_EXPONENT,
+  usesCubicCorners,
+} from './cornerCurves';
+import { computeCornerPatch, resolveCornerBudgets } from './squircleWorklets';
+import type { CubicCorner } from './types';
+
+type Point = { x: number; y: number };
+
+/**
+ * Computes the squircle outline as absolute segments, together with the clamped
+ * radius and bezier patch of every corner. The segments trace the same outline as
+ * `buildSquirclePath` and follow the command structure of `buildSquirclePathWorklet`.
+ *
+ * @param input SquirclePathInput describing the desired geometry.
+ * @returns SquircleGeometry Corners, segments and the cubic-only outline.
+ */
+export function getSquircleGeometry(
+  input: SquirclePathInput,
+): SquircleGeometry {
+  const budgets = resolveCornerBudgets(input);
+  const { width, height } = budgets;
+
+  const { curve } = input;
+  if (usesCubicCorners(curve)) {
+    const exponent =
+      input.superellipseExponent ?? DEFAULT_SUPERELLIPSE_EXPONENT;
+    const topLeft = computeCubicCorner(budgets.topLeft, curve, exponent);
+    const topRight = computeCubicCorner(budgets.topRight, curve, exponent);
+    const bottomRight = computeCubicCorner(
+      budgets.bottomRight,
+      curve,
+      exponent,
+    );
+    const bottomLeft = computeCubicCorner(budgets.bottomLeft, curve, exponent);
+
+    const start = { x: width - topRight.p, y: 0 };
+    const segments: SquircleSegment[] = [{ type: 'move', ...start }];
+
+    traceCubicCorner(segments, start, topRight, 1, 0, 0, 1);
+    segments.push({ type: 'line', x: width, y: height - bottomRight.p });
+    traceCubicCorner(segments, lastPoint(segments), bottomRight, 0, 1, -1, 0);
+    segments.push({ type: 'line', x: bottomLeft.p, y: height });
+    traceCubicCorner(segments, lastPoint(segments), bottomLeft, -1, 0, 0, -1);
+    segments.push({ type: 'line', x: 0, y: topLeft.p });
+    traceCubicCorner(segments, lastPoint(segments), topLeft, 0, -1, 1, 0);
+    segments.push({ type: 'line', ...start }, { type: 'close' });
+
+    return {
+      width,
+      height,
+      corners: {
+        topLeft: describeCubicCorner(topLeft),
+        topRight: describeCubicCorner(topRight),
+        bottomRight: describeCubicCorner(bottomRight),
+        bottomLeft: describeCubicCorner(bottomLeft),
+      },
+      segments,
+      cubicSegments: toCubicSegments(segments),
+    };
+  }
+
+  const topLeft = computeCornerPatch(budgets.topLeft);
+  const topRight = computeCornerPatch(budgets.topRight);
+  const bottomRight = computeCornerPatch(budgets.bottomRight);
+  const bottomLeft = computeCornerPatch(budgets.bottomLeft);
+
+  const start = { x: width - topRight.p, y: 0 };
+  const segments: SquircleSegment[] = [{ type: 'move', ...start }];
+
+  traceCorner(segments, start, topRight, 1, 0, 0, 1);
+  segments.push({ type: 'line', x: width, y: height - bottomRight.p });
+  traceCorner(segments, lastPoint(segments), bottomRight, 0, 1, -1, 0);
+  segments.push({ type: 'line', x: bottomLeft.p, y: height });
+  traceCorner(segments, lastPoint(segments), bottomLeft, -1, 0, 0, -1);
+  segments.push({ type: 'line', x: 0, y: topLeft.p });
+  traceCorner(segments, lastPoint(segments), topLeft, 0, -1, 1, 0);
+  segments.push({ type: 'line', ...start }, { type: 'close' });
+
+  return {
+    width,
+    height,
+    corners: {
+      topLeft: describeCorner(topLeft),
+      topRight: describeCorner(topRight),
+      bottomRight: describeCorner(bottomRight),
+      bottomLeft: describeCorner(bottomLeft),
+    },
+    segments,
+    cubicSegments: toCubicSegments(segments),
+  };
+}
+
+/**
+ * Appends the curve, arc and curve of a corner in absolute coordinates, using the
+ * same local frame as the stable path builder: `u` runs along the incoming edge and
+ * `v` points toward the outgoing edge.
+ *
+ * @param segments Segment list to append to.
+ * @param origin Point where the corner leaves the incoming edge.
+ * @param patch Corner patch (all zero for square corners).
+ * @param ux,uy Direction of the incoming edge.
+ * @param vx,vy Direction of the outgoing edge.
+ */
+function traceCorner(
+  segments: SquircleSegment[],
+  origin: Point,
+  { cornerRadius, a, b, c, d, arcSectionLength }: BezierPatch,
+  ux: number,
+  uy: number,
+  vx: number,
+  vy: number,
+) {
+  const at = (from: Point, u: number, v: number) => ({
+    x: from.x + u * ux + v * vx,
+    y: from.y + u * uy + v * vy,
+  });
+
+  const handle1 = at(origin, a, 0);
+  const handle2 = at(origin, a + b, 0);
+  const arcStart = at(origin, a + b + c, d);
+  const arcEnd = at(arcStart, arcSectionLength, arcSectionLength);
+  const handle3 = at(arcEnd, d, c);
+  const handle4 = at(arcEnd, d, b + c);
+  const end = at(arcEnd, d, a + b + c);
+
+  segments.push(
+    cubic(handle1, handle2, arcStart),
+    { type: 'arc', radius: cornerRadius, ...arcEnd },
+    cubic(handle3, handle4, end),
+  );
+}
+
+/**
+ * Appends the cubics of a cubic-only corner in absolute coordinates, using the same
+ * local frame as `traceCorner`.
+ *
+ * @param segments Segment list to append to.
+ * @param origin Point where the corner leaves the incoming edge.
+ * @param corner Corner computed by `computeCubicCorner`.
+ * @param ux,uy Direction of the incoming edge.
+ * @param vx,vy Direction of the outgoing edge.
+ */
+function traceCubicCorner(
+  segments: SquircleSegment[],
+  origin: Point,
+  { points }: CubicCorner,
+  ux: number,
+  uy: number,
+  vx: number,
+  vy: number,
+) {
+  const at = (index: number) => ({
+    x: origin.x + points[index] * ux + points[index + 1] * vx,
+    y: origin.y + points[index] * uy + points[index + 1] * vy,
+  });
+
+  for (let index = 0; index < points.length; index += 6) {
+    segments.push(cubic(at(index), at(index + 2), at(index + 4)));
+  }
+}
+
+/**
+ * Converts lines and arcs into cubic beziers so every drawing segment has the same
+ * shape. Lines keep their handles on the line; arcs use the standard
+ * `4/3 · tan(θ/4)` handle length.
+ *
+ * @param segments Absolute segments starting with a move.
+ * @returns SquircleCubicSegment[] Equivalent cubic-only segments.
+ */
+function toCubicSegments(segments: SquircleSegment[]) {
+  const result: SquircleCubicSegment[] = [];
+  let current: Point = { x: 0, y: 0 };
+
+  segments.forEach((segment) => {
+    switch (segment.type) {
+      case 'move':
+      case 'cubic':
+      case 'close':
+        result.push(segment);
+        break;
+      case 'line':
+        result.push(
+          cubic(
+            lerpPoint(current, segment, 1 / 3),
+            lerpPoint(current, segment, 2 / 3),
+            segment,
+          ),
+        );
+        break;
+      case 'arc':
+        result.push(arcToCubic(current, segment, segment.radius));
+        break;
+    }
+
+    if (segment.type !== 'close') {
+      current = { x: segment.x, y: segment.y };
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Approximates a clockwise arc shorter than a half circle with one cubic bezier.
+ *
+ * @param from Arc start point.
+ * @param to Arc end point.
+ * @param radius Arc radius.
+ * @returns SquircleCubicSegment Cubic segment ending at `to`.
+ */
+function arcToCubic(from: Point, to: Point, radius: number) {
+  const chordX = to.x - from.x;
+  const chordY = to.y - from.y;
+  const halfChord = Math.hypot(chordX, chordY) / 2;
+
+  if (radius <= 0 || halfChord === 0) {
+    return cubic(from, to, to);
+  }
+
+  const clampedHalfChord = Math.min(halfChord, radius);
+  const sweep = 2 * Math.asin(clampedHalfChord / radius);
+  const centerDistance = Math.sqrt(
+    radius * radius - clampedHalfChord * clampedHalfChord,
+  );
+  const centerX =
+    (from.x + to.x) / 2 - (chordY / (2 * halfChord)) * centerDistance;
+  const centerY =
+    (from.y + to.y) / 2 + (chordX / (2 * halfChord)) * centerDistance;
+  const handle = (4 / 3) * Math.tan(sweep / 4);
+
+  return cubic(
+    {
+      x: from.x - (from.y - centerY) * handle,
+      y: from.y + (from.x - centerX) * handle,
+    },
+    {
+      x: to.x + (to.y - centerY) * handle,
+      y: to.y - (to.x - centerX) * handle,
+    },
+    to,
+  );
+}
+
+function describeCorner(patch: BezierPatch): SquircleCornerGeometry {
+  return { radius: patch.cornerRadius, patch };
+}
+
+function describeCubicCorner({
+  cornerRadius,
+  p,
+}: CubicCorner): SquircleCornerGeometry {
+  return {
+    radius: cornerRadius,
+    patch: { a: 0, b: 0, c: 0, d: 0, p, cornerRadius, arcSectionLength: 0 },
+  };
+}
+
+function cubic(handle1: Point, handle2: Point, end: Point) {
+  return {
+    type: 'cubic' as const,
+    x1: handle1.x,
+    y1: handle1.y,
+    x2: handle2.x,
+    y2: handle2.y,
+    x: end.x,
+    y: end.y,
+  };
+}
+
+function lerpPoint(from: Point, to: Point, t: number) {
+  return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+}
+
+function lastPoint(segments: SquircleSegment[]): Point {
+  const segment = segments[segments.length - 1];
+  return segment.type === 'close' ? { x: 0, y: 0 } : segment;
+}
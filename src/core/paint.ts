@@ -0,0 +1,228 @@
+/**
+ * @file packages/expo-squircle/src/core/paint.ts
+ * @description Helpers for validating squircle paints and resolving gradient geometry.
+ *
+ * Exports
+ *   - isSquircleGradient
+ *   - resolveSchemePaint
+ *   - normalizeSquirclePaint
+ *   - resolveLinearGradient
+ *   - resolveRadialGradient
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { ColorValue } from 'react-native';
+
+import type {
+  SquircleColorScheme,
+  SquircleGradient,
+  SquircleGradientStop,
+  SquirclePaint,
+  SquirclePoint,
+  SquircleSchemeValue,
+} from '../ExpoSquircle.types';
+import type {
+  NormalizedGradientStop,
+  NormalizedLinearGradient,
+  NormalizedRadialGradient,
+  NormalizedSquircleGradient,
+  NormalizedSquirclePaint,
+  ResolvedLinearGradient,
+  ResolvedRadialGradient,
+} from './types';
+
+const EMPTY_GRADIENT_ERROR =
+  'ExpoSquircle: Gradients require at least one color stop.';
+
+const DEFAULT_LINEAR_ANGLE = 180;
+const DEFAULT_RADIAL_CENTER: SquirclePoint = { x: 0.5, y: 0.5 };
+
+/**
+ * Checks whether a paint value is a gradient descriptor rather than a plain color.
+ *
+ * @param value Paint value supplied by the caller.
+ * @returns boolean True when the value describes a linear or radial gradient.
+ */
+export function isSquircleGradient(
+  value: SquirclePaint | NormalizedSquirclePaint | undefined,
+): value is SquircleGradient | NormalizedSquircleGradient {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Partial<SquircleGradient>;
+  return (
+    (candidate.type === 'linear' || candidate.type === 'radial') &&
+    Array.isArray(candidate.stops)
+  );
+}
+
+/**
+ * Picks the paint for the active color scheme when the value differs per scheme.
+ *
+ * @param value Paint value, optionally split into `light` and `dark` variants.
+ * @param colorScheme Active color scheme.
+ * @returns T | undefined Paint for the active scheme.
+ */
+export function resolveSchemePaint<T extends SquirclePaint>(
+  value: T | SquircleSchemeValue<T> | undefined,
+  colorScheme: SquircleColorScheme,
+): T | undefined {
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    !isSquircleGradient(value as SquirclePaint) &&
+    'light' in value &&
+    'dark' in value
+  ) {
+    return value[colorScheme];
+  }
+  return value as T | undefined;
+}
+
+/**
+ * Resolves a paint into either a color or a gradient with sorted, clamped stops.
+ *
+ * @param value Paint value supplied by the caller.
+ * @param fallback Color used when the value is missing.
+ * @returns NormalizedSquirclePaint Paint ready for rendering.
+ * @throws Error when a gradient does not contain any stops.
+ */
+export function normalizeSquirclePaint(
+  value: SquirclePaint | undefined,
+  fallback: ColorValue,
+): NormalizedSquirclePaint {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+
+  if (!isSquircleGradient(value)) {
+    return value;
+  }
+
+  const stops = normalizeGradientStops(value.stops);
+
+  if (value.type === 'radial') {
+    const gradient: NormalizedRadialGradient = {
+      type: 'radial',
+      stops,
+      center: value.center ?? DEFAULT_RADIAL_CENTER,
+      radius:
+        typeof value.radius === 'number' && Number.isFinite(value.radius)
+          ? Math.max(0, value.radius)
+          : 1,
+    };
+    return gradient;
+  }
+
+  const gradient: NormalizedLinearGradient = {
+    type: 'linear',
+    stops,
+    angle: Number.isFinite(value.angle)
+      ? (value.angle as number)
+      : DEFAULT_LINEAR_ANGLE,
+    start: value.start && value.end ? value.start : undefined,
+    end: value.start && value.end ? value.end : undefined,
+  };
+  return gradient;
+}
+
+/**
+ * Converts a linear gradient into a vector in the frame's user space. Angles follow
+ * CSS semantics so the gradient line always spans the full box in its direction.
+ *
+ * @param gradient Normalized linear gradient.
+ * @param width Frame width.
+ * @param height Frame height.
+ * @returns ResolvedLinearGradient Start and end coordinates of the gradient.
+ */
+export function resolveLinearGradient(
+  gradient: NormalizedLinearGradient,
+  width: number,
+  height: number,
+): ResolvedLinearGradient {
+  if (gradient.start && gradient.end) {
+    return {
+      x1: gradient.start.x * width,
+      y1: gradient.start.y * height,
+      x2: gradient.end.x * width,
+      y2: gradient.end.y * height,
+    };
+  }
+
+  const radians = (gradient.angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  return {
+    x1: centerX - dx * halfLength,
+    y1: centerY - dy * halfLength,
+    x2: centerX + dx * halfLength,
+    y2: centerY + dy * halfLength,
+  };
+}
+
+/**
+ * Converts a radial gradient into a circle in the frame's user space.
+ *
+ * @param gradient Normalized radial gradient.
+ * @param width Frame width.
+ * @param height Frame height.
+ * @returns ResolvedRadialGradient Center and radius of the gradient.
+ */
+export function resolveRadialGradient(
+  gradient: NormalizedRadialGradient,
+  width: number,
+  height: number,
+): ResolvedRadialGradient {
+  const cx = gradient.center.x * width;
+  const cy = gradient.center.y * height;
+  const farthestX = Math.max(cx, width - cx);
+  const farthestY = Math.max(cy, height - cy);
+
+  return {
+    cx,
+    cy,
+    r: Math.hypot(farthestX, farthestY) * gradient.radius,
+  };
+}
+
+/**
+ * Clamps stop offsets and opacities and orders the stops by offset.
+ *
+ * @param stops Raw gradient stops.
+ * @returns NormalizedGradientStop[] Sorted stops.
+ * @throws Error when no stops are provided.
+ */
+function normalizeGradientStops(
+  stops: SquircleGradientStop[],
+): NormalizedGradientStop[] {
+  if (stops.length === 0) {
+    throw new Error(EMPTY_GRADIENT_ERROR);
+  }
+
+  return stops
+    .map((stop, index) => ({
+      offset: sanitizeFraction(
+        stop.offset,
+        stops.length > 1 ? index / (stops.length - 1) : 0,
+      ),
+      color: stop.color,
+      opacity: sanitizeFraction(stop.opacity, 1),
+    }))
+    .sort((left, right) => left.offset - right.offset);
+}
+
+/**
+ * Clamps a value to the [0, 1] range, falling back when the input is not finite.
+ */
+function sanitizeFraction(value: number | undefined, fallback: number) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return Math.min(1, Math.max(0, value));
+}
@@ -5,15 +5,35 @@
  * Exports
  *   - normalizeSquircleParams
  *   - normalizeSmoothFactor
- *   - clamp
+ *   - normalizeBorderAlignment
+ *   - normalizeBorderStyle
+ *   - normalizeCornerCurve
  *   - shrinkRadius
  *
  * @license MIT. Internal helper for expo-squircle.
  * @author Doğu Abaris <abaris@null.net>
  */
 
+import { normalizeBorderSides } from './borders';
+import { DEFAULT_SUPERELLIPSE_EXPONENT } from './cornerCurves';
+import { normalizeSquircleLayers } from './layers';
+import { clamp } from './numbers';
+import { normalizeSquirclePaint, resolveSchemePaint } from './paint';
+import { normalizeSquircleRadius } from './radii';
+import { normalizeSquircleShadows } from './shadows';
+import {
+  normalizeSquirclePattern,
+  normalizeSurfaceImage,
+} from './surfaceFills';
+import type {
+  RoundedSurfaceOptions,
+  SquircleBorderAlignment,
+  SquircleBorderStyle,
+  SquircleCurve,
+} from '../ExpoSquircle.types';
 import type {
   NormalizedRoundedSurfaceOptions,
+  SquircleParamsContext,
   SquircleParamsProp,
 } from './types';
 
@@ -21,48 +41,138 @@ const SQUIRCLE_PARAM_ERROR =
   'ExpoSquircle: The "squircleParams" prop is required to draw the background.';
 const INVALID_SMOOTH_FACTOR_ERROR =
   'ExpoSquircle: "smoothFactor" must be a finite number between 0 and 1.';
+const INVALID_SUPERELLIPSE_EXPONENT_ERROR =
+  'ExpoSquircle: "superellipseExponent" must be a finite number of at least 2.';
 
 /**
  * Validates and sanitizes the incoming squircle props so downstream layout math
- * can assume required values are present and non-negative.
+ * can assume required values are present and non-negative. Theme presets are merged
+ * underneath the params, where keys left `undefined` keep the preset value, and
+ * scheme-dependent colors are resolved first, so themed values go through the same
+ * validation. Custom `layers` replace the border, so its width is normalized to
+ * zero.
  *
  * @param params Raw props passed to the ExpoSquircle component.
+ * @param context Optional theme preset, active color scheme and display metrics.
  * @returns NormalizedRoundedSurfaceOptions Normalized values ready for rendering.
- * @throws Error when the params object or its `smoothFactor` field are missing.
+ * @throws Error when the params object or its `smoothFactor` field are missing,
+ * when `superellipseExponent` is below 2, when a radius string is not a
+ * percentage or `'capsule'`, when a gradient paint has no stops, or when a
+ * per-side border color is a gradient.
  */
 export function normalizeSquircleParams(
-  params: SquircleParamsProp,
+  rawParams: SquircleParamsProp,
+  {
+    preset,
+    colorScheme = 'light',
+    pixelRatio = 1,
+    hairlineWidth = 1,
+  }: SquircleParamsContext = {},
 ): NormalizedRoundedSurfaceOptions {
+  const params = preset ? mergeOverPreset(preset, rawParams) : rawParams;
   if (!params) {
     throw new Error(SQUIRCLE_PARAM_ERROR);
   }
 
   /**
-   * Ensures radii are positive numbers or returns undefined when user input is invalid.
+   * Ensures lengths are positive numbers or returns undefined when user input is invalid.
    */
-  const sanitizeRadius = (value?: number) => {
+  const sanitizeLength = (value?: number) => {
     if (typeof value !== 'number' || Number.isNaN(value)) {
       return undefined;
     }
     return Math.max(0, value);
   };
 
-  const baseRadius = sanitizeRadius(params.baseRadius) ?? 0;
-  const borderWidth = sanitizeRadius(params.borderWidth) ?? 0;
+  const baseRadius = normalizeSquircleRadius(params.baseRadius) ?? 0;
+  const hasCustomLayers = Array.isArray(params.layers);
+  const borderWidth = hasCustomLayers
+    ? 0
+    : params.borderWidth === 'hairline'
+    ? hairlineWidth
+    : sanitizeLength(params.borderWidth) ?? 0;
+  const borderStyle = normalizeBorderStyle(params.borderStyle);
+  const borderColor = normalizeSquirclePaint(
+    resolveSchemePaint(params.borderColor, colorScheme),
+    '#000',
+  );
+  const surfaceColor = normalizeSquirclePaint(
+    resolveSchemePaint(params.surfaceColor, colorScheme),
+    '#000',
+  );
 
   return {
     baseRadius,
-    topLeftRadius: sanitizeRadius(params.topLeftRadius),
-    topRightRadius: sanitizeRadius(params.topRightRadius),
-    bottomRightRadius: sanitizeRadius(params.bottomRightRadius),
-    bottomLeftRadius: sanitizeRadius(params.bottomLeftRadius),
+    topLeftRadius: normalizeSquircleRadius(params.topLeftRadius),
+    topRightRadius: normalizeSquircleRadius(params.topRightRadius),
+    bottomRightRadius: normalizeSquircleRadius(params.bottomRightRadius),
+    bottomLeftRadius: normalizeSquircleRadius(params.bottomLeftRadius),
     smoothFactor: normalizeSmoothFactor(params.smoothFactor),
-    surfaceColor: params.surfaceColor ?? '#000',
-    borderColor: params.borderColor ?? '#000',
+    topLeftSmoothFactor: normalizeCornerSmoothFactor(
+      params.topLeftSmoothFactor,
+    ),
+    topRightSmoothFactor: normalizeCornerSmoothFactor(
+      params.topRightSmoothFactor,
+    ),
+    bottomRightSmoothFactor: normalizeCornerSmoothFactor(
+      params.bottomRightSmoothFactor,
+    ),
+    bottomLeftSmoothFactor: normalizeCornerSmoothFactor(
+      params.bottomLeftSmoothFactor,
+    ),
+    preserveSmoothing: params.preserveSmoothing === true,
+    curve: normalizeCornerCurve(params.curve),
+    superellipseExponent: normalizeSuperellipseExponent(
+      params.superellipseExponent,
+    ),
+    pixelSnapping: params.pixelSnapping === true,
+    pixelRatio: pixelRatio > 0 && Number.isFinite(pixelRatio) ? pixelRatio : 1,
+    surfaceColor,
+    surfaceImage: normalizeSurfaceImage(params.surfaceImage),
+    surfacePattern: normalizeSquirclePattern(
+      params.surfacePattern,
+      colorScheme,
+    ),
+    borderColor,
     borderWidth,
+    borderAlignment: normalizeBorderAlignment(params.borderAlignment),
+    borderStyle,
+    borderDashLength:
+      sanitizeLength(params.borderDashLength) ?? borderWidth * 3,
+    borderGapLength:
+      sanitizeLength(params.borderGapLength) ??
+      (borderStyle === 'dotted' ? borderWidth : borderWidth * 2),
+    borderSides: hasCustomLayers
+      ? null
+      : normalizeBorderSides(params, borderWidth, borderColor, colorScheme),
+    shadows: normalizeSquircleShadows(params.shadows),
+    insetShadows: normalizeSquircleShadows(params.insetShadows),
+    layers: normalizeSquircleLayers(
+      params.layers,
+      surfaceColor,
+      colorScheme,
+      hairlineWidth,
+    ),
   };
 }
 
+/**
+ * Merges params over a theme preset. Keys set to `undefined`, as happens when
+ * props are passed straight through, keep the preset value.
+ */
+function mergeOverPreset(
+  preset: Partial<RoundedSurfaceOptions>,
+  params: SquircleParamsProp,
+): Partial<RoundedSurfaceOptions> {
+  const merged: Record<string, unknown> = { ...preset };
+  Object.entries(params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  });
+  return merged as Partial<RoundedSurfaceOptions>;
+}
+
 /**
  * Validates and clamps a smoothing value to the [0, 1] range.
  *
@@ -78,13 +188,71 @@ export function normalizeSmoothFactor(value: number | undefined) {
 }
 
 /**
- * Clamps a numeric value between the provided range.
+ * Validates an optional per-corner smoothing override.
+ *
+ * @param value Override supplied by the caller.
+ * @returns number | undefined Clamped smoothing, or undefined to inherit `smoothFactor`.
+ * @throws Error when the override is present but not a finite number.
+ */
+function normalizeCornerSmoothFactor(value: number | undefined) {
+  return value === undefined ? undefined : normalizeSmoothFactor(value);
+}
+
+/**
+ * Validates the superellipse exponent. Exponents below 2 would pull the corner
+ * inside a circular arc and break its tangency with the edges.
+ *
+ * @param value Exponent supplied by the caller.
+ * @returns number Exponent, or the default when omitted.
+ * @throws Error when the exponent is present but not a finite number of at least 2.
+ */
+function normalizeSuperellipseExponent(value: number | undefined) {
+  if (value === undefined) {
+    return DEFAULT_SUPERELLIPSE_EXPONENT;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 2) {
+    throw new Error(INVALID_SUPERELLIPSE_EXPONENT_ERROR);
+  }
+  return value;
+}
+
+/**
+ * Resolves the corner curve, falling back to Figma's smoothed corner for unknown
+ * values.
+ *
+ * @param value Curve requested by the caller.
+ * @returns SquircleCurve Supported corner curve.
+ */
+export function normalizeCornerCurve(
+  value: SquircleCurve | undefined,
+): SquircleCurve {
+  return value === 'superellipse' ||
+    value === 'apple-continuous' ||
+    value === 'circular'
+    ? value
+    : 'figma';
+}
+
+/**
+ * Resolves the border alignment, falling back to inside strokes for unknown values.
+ *
+ * @param value Alignment requested by the caller.
+ * @returns SquircleBorderAlignment Supported alignment mode.
+ */
+export function normalizeBorderAlignment(
+  value: SquircleBorderAlignment | undefined,
+): SquircleBorderAlignment {
+  return value === 'center' || value === 'outside' ? value : 'inside';
+}
+
+/**
+ * Resolves the border style, falling back to solid strokes for unknown values.
  *
- * @param value Number to clamp.
- * @param min Minimal allowed value.
- * @param max Maximum allowed value.
- * @returns number Value coerced into the [min, max] range.
+ * @param value Style requested by the caller.
+ * @returns SquircleBorderStyle Supported border style.
  */
-export function clamp(value: number, min: number, max: number) {
-  return Math.min(max, Math.max(min, value));
+export function normalizeBorderStyle(
+  value: SquircleBorderStyle | undefined,
+): SquircleBorderStyle {
+  return value === 'dashed' || value === 'dotted' ? value : 'solid';
 }
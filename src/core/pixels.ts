@@ -0,0 +1,49 @@
+/**
+ * @file packages/expo-squircle/src/core/pixels.ts
+ * @description Helpers that align squircle geometry to the device pixel grid.
+ *
+ * Exports
+ *   - snapToPixel
+ *   - snapBorderWidth
+ *   - pathPrecisionForPixelRatio
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+/**
+ * Rounds a length to the nearest device pixel.
+ *
+ * @param value Length in logical pixels.
+ * @param pixelRatio Device pixels per logical pixel.
+ * @returns number Length that covers a whole number of device pixels.
+ */
+export function snapToPixel(value: number, pixelRatio: number) {
+  return Math.round(value * pixelRatio) / pixelRatio;
+}
+
+/**
+ * Rounds a border width to whole device pixels without letting a visible border
+ * disappear: anything above zero covers at least one device pixel.
+ *
+ * @param width Border width in logical pixels.
+ * @param pixelRatio Device pixels per logical pixel.
+ * @returns number Snapped border width.
+ */
+export function snapBorderWidth(width: number, pixelRatio: number) {
+  if (width <= 0) {
+    return 0;
+  }
+  return Math.max(1, Math.round(width * pixelRatio)) / pixelRatio;
+}
+
+/**
+ * Picks how many decimals path coordinates need so rounding stays below a
+ * sixteenth of a device pixel. Denser screens need more, 1x screens fewer.
+ *
+ * @param pixelRatio Device pixels per logical pixel.
+ * @returns number Decimal places for path coordinates.
+ */
+export function pathPrecisionForPixelRatio(pixelRatio: number) {
+  return Math.max(1, Math.ceil(Math.log10(pixelRatio * 16)));
+}
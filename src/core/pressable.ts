@@ -0,0 +1,176 @@
+/**
+ * @file packages/expo-squircle/src/core/pressable.ts
+ * @description Helpers that resolve the interaction states, per-state params and optional effects of a pressable squircle.
+ *
+ * Exports
+ *   - PRESSABLE_STATE_ORDER
+ *   - resolveActiveState
+ *   - resolveOptions
+ *   - normalizeStateLayers
+ *   - normalizeShadowLayer
+ *   - resolveLayerOpacities
+ *   - appendScaleTransform
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { ViewStyle } from 'react-native';
+
+import type {
+  SquirclePressableState,
+  SquircleStateParams,
+} from '../ExpoSquircle.types';
+import { normalizeSquircleParams } from './params';
+import type {
+  NormalizedRoundedSurfaceOptions,
+  SquircleParamsContext,
+  SquircleParamsProp,
+} from './types';
+
+/**
+ * States in paint order; later entries are drawn on top and win when several apply.
+ */
+export const PRESSABLE_STATE_ORDER: SquirclePressableState[] = [
+  'hovered',
+  'focused',
+  'pressed',
+  'disabled',
+];
+
+/**
+ * Picks the highest-priority state that is both active and has overrides.
+ *
+ * @param flags Whether each state currently applies.
+ * @param available States that have overrides in `stateParams`.
+ * @returns SquirclePressableState | null Active layer, or null for the idle look.
+ */
+export function resolveActiveState(
+  flags: Record<SquirclePressableState, boolean>,
+  available: SquirclePressableState[],
+) {
+  for (let index = PRESSABLE_STATE_ORDER.length - 1; index >= 0; index -= 1) {
+    const state = PRESSABLE_STATE_ORDER[index];
+    if (flags[state] && available.includes(state)) {
+      return state;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves a `boolean | options` prop into options merged over defaults.
+ *
+ * @param value Prop supplied by the caller.
+ * @param defaults Options used for `true` and for keys the caller leaves out.
+ * @returns T | null Options, or null when the feature is turned off.
+ */
+export function resolveOptions<T extends object>(
+  value: boolean | Partial<T> | undefined,
+  defaults: T,
+): T | null {
+  if (!value) {
+    return null;
+  }
+  return value === true ? defaults : { ...defaults, ...value };
+}
+
+/**
+ * Normalizes the params of every state that has overrides, merged over the base
+ * params. Drop shadows are left out because the shadow layer already paints them.
+ *
+ * @param squircleParams Base drawing options.
+ * @param stateParams Overrides per interaction state.
+ * @param context Theme preset, color scheme and pixel density.
+ * @returns Array<{ state, params }> States with overrides in paint order, each with
+ * its normalized params.
+ * @throws Error when a merged state is invalid.
+ */
+export function normalizeStateLayers(
+  squircleParams: SquircleParamsProp,
+  stateParams: SquircleStateParams | undefined,
+  context?: SquircleParamsContext,
+): {
+  state: SquirclePressableState;
+  params: NormalizedRoundedSurfaceOptions;
+}[] {
+  return PRESSABLE_STATE_ORDER.flatMap((state) => {
+    const overrides = stateParams?.[state];
+    if (!overrides) {
+      return [];
+    }
+    const params = normalizeSquircleParams(
+      { ...squircleParams, ...overrides, shadows: [] },
+      context,
+    );
+    return [{ state, params }];
+  });
+}
+
+/**
+ * Normalizes a layer that paints only the drop shadows of the base params. It
+ * stays visible in every state, underneath the idle and state layers.
+ *
+ * @param squircleParams Base drawing options.
+ * @param context Theme preset, color scheme and pixel density.
+ * @returns NormalizedRoundedSurfaceOptions | null Shadow-only params, or null when
+ * the base params have no drop shadows.
+ * @throws Error when the base params are invalid.
+ */
+export function normalizeShadowLayer(
+  squircleParams: SquircleParamsProp,
+  context?: SquircleParamsContext,
+): NormalizedRoundedSurfaceOptions | null {
+  const params = normalizeSquircleParams(
+    {
+      ...squircleParams,
+      borderWidth: 0,
+      insetShadows: [],
+      layers: [],
+      surfaceImage: undefined,
+      surfacePattern: undefined,
+    },
+    context,
+  );
+  return params.shadows.length > 0 ? params : null;
+}
+
+/**
+ * Resolves the opacity of the idle layer and of every state layer. Only the active
+ * layer is shown, so a translucent fill, a smaller radius or a thinner border in a
+ * state replaces the idle look instead of being painted over it.
+ *
+ * @param activeState Active state layer, or null for the idle look.
+ * @returns Record<SquirclePressableState | 'idle', number> Target opacity per layer.
+ */
+export function resolveLayerOpacities(
+  activeState: SquirclePressableState | null,
+) {
+  const opacities = { idle: activeState ? 0 : 1 } as Record<
+    SquirclePressableState | 'idle',
+    number
+  >;
+  PRESSABLE_STATE_ORDER.forEach((state) => {
+    opacities[state] = state === activeState ? 1 : 0;
+  });
+  return opacities;
+}
+
+/**
+ * Appends a scale to the transforms of a flattened style, keeping the caller's own
+ * transforms in front of it. A transform string is kept as is without the scale,
+ * since an animated value cannot be written into it.
+ *
+ * @param transform `transform` of the flattened style.
+ * @param scale Scale to append, usually an animated value.
+ * @returns ViewStyle['transform'] Transforms to set on the style.
+ */
+export function appendScaleTransform<Scale>(
+  transform: ViewStyle['transform'] | undefined,
+  scale: Scale,
+) {
+  if (typeof transform === 'string') {
+    return transform;
+  }
+  return [...(transform ?? []), { scale }];
+}
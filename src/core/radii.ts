@@ -0,0 +1,76 @@
+/**
+ * @file packages/expo-squircle/src/core/radii.ts
+ * @description Helpers that parse relative corner radii and resolve them against a measured frame.
+ *
+ * Exports
+ *   - normalizeSquircleRadius
+ *   - resolveSquircleRadius
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { SquircleRadius } from '../ExpoSquircle.types';
+import type { NormalizedSquircleRadius } from './types';
+
+const INVALID_RADIUS_ERROR =
+  'ExpoSquircle: Radii must be numbers, percentage strings such as "25%", or "capsule".';
+
+const PERCENTAGE_PATTERN = /^\s*(-?(?:\d+\.?\d*|\.\d+))\s*%\s*$/;
+
+/**
+ * Parses a radius into an absolute value, a percentage of the shorter side, or the
+ * capsule keyword. Negative values are clamped to zero.
+ *
+ * @param value Radius supplied by the caller.
+ * @returns NormalizedSquircleRadius | undefined Parsed radius, or undefined when the
+ * value is missing or not a number.
+ * @throws Error when a string is neither a percentage nor `'capsule'`.
+ */
+export function normalizeSquircleRadius(
+  value: SquircleRadius | undefined,
+): NormalizedSquircleRadius | undefined {
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? undefined : Math.max(0, value);
+  }
+
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  if (value.trim() === 'capsule') {
+    return 'capsule';
+  }
+
+  const match = PERCENTAGE_PATTERN.exec(value);
+  if (!match) {
+    throw new Error(INVALID_RADIUS_ERROR);
+  }
+
+  return { percent: Math.max(0, Number(match[1])) };
+}
+
+/**
+ * Converts a parsed radius into logical pixels for a frame. Percentages refer to the
+ * shorter side and `'capsule'` equals half of it, so `'50%'` and `'capsule'` both
+ * round the shorter side completely.
+ *
+ * @param radius Parsed radius.
+ * @param width Frame width.
+ * @param height Frame height.
+ * @returns number | undefined Absolute radius.
+ */
+export function resolveSquircleRadius(
+  radius: NormalizedSquircleRadius | undefined,
+  width: number,
+  height: number,
+) {
+  if (radius === undefined || typeof radius === 'number') {
+    return radius;
+  }
+
+  const shorterSide = Math.min(width, height);
+  return radius === 'capsule'
+    ? shorterSide / 2
+    : (shorterSide * radius.percent) / 100;
+}
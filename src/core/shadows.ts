@@ -0,0 +1,162 @@
+/**
+ * @file packages/expo-squircle/src/core/shadows.ts
+ * @description Helpers that validate shadow layers and derive the geometry they are drawn with.
+ *
+ * Exports
+ *   - normalizeSquircleShadows
+ *   - spreadSquirclePathInput
+ *   - computeShadowOutset
+ *   - computeInsetShadowGeometry
+ *   - blurRadiusToDeviation
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { SquircleShadow } from '../ExpoSquircle.types';
+import { sanitizeNumber } from './numbers';
+import { buildSquirclePath } from './squircleMath';
+import type {
+  InsetShadowGeometry,
+  NormalizedSquircleShadow,
+  SquirclePathInput,
+} from './types';
+
+/**
+ * Gaussian blur visibly fades out after roughly three standard deviations.
+ */
+const BLUR_EXTENT_IN_DEVIATIONS = 3;
+
+/**
+ * Resolves optional shadow fields and drops layers that can never be visible.
+ *
+ * @param shadows Raw shadow layers supplied by the caller.
+ * @returns NormalizedSquircleShadow[] Layers ready for rendering, in paint order.
+ */
+export function normalizeSquircleShadows(
+  shadows: SquircleShadow[] | undefined,
+): NormalizedSquircleShadow[] {
+  if (!Array.isArray(shadows)) {
+    return [];
+  }
+
+  return shadows
+    .filter((shadow): shadow is SquircleShadow => Boolean(shadow))
+    .map((shadow) => ({
+      offsetX: sanitizeNumber(shadow.offsetX, 0),
+      offsetY: sanitizeNumber(shadow.offsetY, 0),
+      blurRadius: Math.max(0, sanitizeNumber(shadow.blurRadius, 0)),
+      spread: sanitizeNumber(shadow.spread, 0),
+      color: shadow.color ?? '#000',
+      opacity: Math.min(1, Math.max(0, sanitizeNumber(shadow.opacity, 1))),
+    }))
+    .filter((shadow) => shadow.opacity > 0);
+}
+
+/**
+ * Grows (or shrinks, for negative distances) a squircle outline by moving every edge
+ * outward and adjusting the radii the way CSS spreads box shadows: rounded corners
+ * grow with the edge, square corners stay square.
+ *
+ * The returned input describes a shape whose origin sits `spread` units above and to
+ * the left of the original frame.
+ *
+ * @param input Path input of the original shape.
+ * @param spread Distance to move every edge outward.
+ * @returns SquirclePathInput | null Expanded input, or null when the shape collapses.
+ */
+export function spreadSquirclePathInput(
+  input: SquirclePathInput,
+  spread: number,
+): SquirclePathInput | null {
+  const width = input.width + spread * 2;
+  const height = input.height + spread * 2;
+
+  if (width <= 0 || height <= 0) {
+    return null;
+  }
+
+  const baseRadius = input.cornerRadius ?? 0;
+  const grow = (radius: number | undefined) => {
+    const value = radius ?? baseRadius;
+    return value > 0 ? Math.max(0, value + spread) : 0;
+  };
+
+  return {
+    ...input,
+    width,
+    height,
+    cornerRadius: grow(baseRadius),
+    topLeftCornerRadius: grow(input.topLeftCornerRadius),
+    topRightCornerRadius: grow(input.topRightCornerRadius),
+    bottomRightCornerRadius: grow(input.bottomRightCornerRadius),
+    bottomLeftCornerRadius: grow(input.bottomLeftCornerRadius),
+  };
+}
+
+/**
+ * Computes how far shadows can paint beyond the measured frame on any side.
+ *
+ * @param shadows Normalized shadow layers.
+ * @returns number Outset in logical pixels, rounded up to a whole pixel.
+ */
+export function computeShadowOutset(shadows: NormalizedSquircleShadow[]) {
+  return shadows.reduce((outset, shadow) => {
+    const extent =
+      Math.max(Math.abs(shadow.offsetX), Math.abs(shadow.offsetY)) +
+      Math.max(0, shadow.spread) +
+      blurRadiusToDeviation(shadow.blurRadius) * BLUR_EXTENT_IN_DEVIATIONS;
+    return Math.max(outset, Math.ceil(extent));
+  }, 0);
+}
+
+/**
+ * Builds the geometry of an inset shadow layer. The outline shrinks by `spread` and
+ * moves by the offset; everything outside it, up to the shadow canvas, is painted
+ * and then clipped to the squircle, so the shadow hugs the smoothed corners. The
+ * translation includes the spread because the shrunken outline starts `spread`
+ * units inside the frame. When the spread collapses the outline, the whole canvas is
+ * painted.
+ *
+ * @param pathInput Path input of the squircle outline.
+ * @param shadow Normalized inset shadow layer.
+ * @param outset Shadow canvas outset from `computeShadowOutset`.
+ * @returns InsetShadowGeometry Path, translation and blur region of the layer.
+ */
+export function computeInsetShadowGeometry(
+  pathInput: SquirclePathInput,
+  shadow: NormalizedSquircleShadow,
+  outset: number,
+): InsetShadowGeometry {
+  const translateX = shadow.offsetX + shadow.spread;
+  const translateY = shadow.offsetY + shadow.spread;
+  const region = {
+    x: -outset - translateX,
+    y: -outset - translateY,
+    width: pathInput.width + outset * 2,
+    height: pathInput.height + outset * 2,
+  };
+  const frameRect = `M ${region.x} ${region.y} h ${region.width} v ${
+    region.height
+  } h ${-region.width} Z`;
+  const innerInput = spreadSquirclePathInput(pathInput, -shadow.spread);
+
+  return {
+    path: innerInput
+      ? `${frameRect} ${buildSquirclePath(innerInput)}`
+      : frameRect,
+    translateX,
+    translateY,
+    region,
+  };
+}
+
+/**
+ * Converts a CSS-style blur radius into a Gaussian standard deviation.
+ *
+ * @param blurRadius Blur radius in logical pixels.
+ * @returns number Standard deviation consumed by `FeGaussianBlur`.
+ */
+export function blurRadiusToDeviation(blurRadius: number) {
+  return blurRadius / 2;
+}
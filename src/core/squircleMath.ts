@@ -4,52 +4,87 @@
  *
  * Exports
  *   - buildSquirclePath
+ *   - measureSquirclePath
+ *   - configureSquircleCache
+ *   - getSquircleCacheStats
+ *   - clearSquircleCache
  *
  * @license MIT. Internal helper for expo-squircle.
  * @author Doğu Abaris <abaris@null.net>
  */
 
+import type {
+  SquircleCacheOptions,
+  SquircleCacheStats,
+  SquircleCurve,
+} from '../ExpoSquircle.types';
+import {
+  computeCubicCorner,
+  DEFAULT_SUPERELLIPSE_EXPONENT,
+  traceCubicCorner,
+  usesCubicCorners,
+} from './cornerCurves';
+import { createLruCache } from './lruCache';
+import { computeCornerPatch, resolveCornerBudgets } from './squircleWorklets';
 import type {
   BezierPatch,
   BezierPatchInput,
-  CornerId,
-  CornerProfiles,
-  CornerSpreadInput,
+  CubicCorner,
   SquirclePathInput,
 } from './types';
 
-const PATH_CACHE_LIMIT = 160;
-const PATH_CACHE_MAP = new Map<string, string>();
-const CORNER_PROFILE_CACHE = new Map<string, BezierPatch>();
+const DEFAULT_PATH_PRECISION = 4;
+
+const INVALID_CACHE_LIMIT_ERROR =
+  'ExpoSquircle: Cache limits must be non-negative integers.';
+
+const PATH_CACHE = createLruCache<string>(160);
+const CORNER_PROFILE_CACHE = createLruCache<BezierPatch | CubicCorner>(512);
 
 /**
  * Builds an SVG path definition representing a smooth squircle that fits inside
- * the provided width/height using per-corner radii and smoothing inputs.
+ * the provided width/height using per-corner radii and smoothing inputs. Every
+ * corner curve shares the corner budgeting and the path cache.
  *
  * @param options SquirclePathInput describing the desired geometry.
  * @returns string SVG path string that can be consumed by react-native-svg.
  */
-export function buildSquirclePath({
-  cornerRadius = 0,
-  topLeftCornerRadius,
-  topRightCornerRadius,
-  bottomRightCornerRadius,
-  bottomLeftCornerRadius,
-  cornerSmoothing,
-  width,
-  height,
-  preserveSmoothing = false,
-}: SquirclePathInput) {
-  topLeftCornerRadius = topLeftCornerRadius ?? cornerRadius;
-  topRightCornerRadius = topRightCornerRadius ?? cornerRadius;
-  bottomLeftCornerRadius = bottomLeftCornerRadius ?? cornerRadius;
-  bottomRightCornerRadius = bottomRightCornerRadius ?? cornerRadius;
+export function buildSquirclePath(input: SquirclePathInput) {
+  const {
+    width,
+    height,
+    cornerSmoothing,
+    preserveSmoothing = false,
+    curve = 'figma',
+    superellipseExponent = DEFAULT_SUPERELLIPSE_EXPONENT,
+    precision = DEFAULT_PATH_PRECISION,
+  } = input;
+  const topLeftCornerSmoothing =
+    input.topLeftCornerSmoothing ?? cornerSmoothing;
+  const topRightCornerSmoothing =
+    input.topRightCornerSmoothing ?? cornerSmoothing;
+  const bottomRightCornerSmoothing =
+    input.bottomRightCornerSmoothing ?? cornerSmoothing;
+  const bottomLeftCornerSmoothing =
+    input.bottomLeftCornerSmoothing ?? cornerSmoothing;
+  const cornerRadius = input.cornerRadius ?? 0;
+  const topLeftCornerRadius = input.topLeftCornerRadius ?? cornerRadius;
+  const topRightCornerRadius = input.topRightCornerRadius ?? cornerRadius;
+  const bottomRightCornerRadius = input.bottomRightCornerRadius ?? cornerRadius;
+  const bottomLeftCornerRadius = input.bottomLeftCornerRadius ?? cornerRadius;
 
   const cacheKey = composeCacheKey({
     width,
     height,
     cornerSmoothing,
+    topLeftCornerSmoothing,
+    topRightCornerSmoothing,
+    bottomRightCornerSmoothing,
+    bottomLeftCornerSmoothing,
     preserveSmoothing,
+    curve,
+    superellipseExponent,
+    precision,
     cornerRadius,
     topLeftCornerRadius,
     topRightCornerRadius,
@@ -57,86 +92,180 @@ export function buildSquirclePath({
     bottomLeftCornerRadius,
   });
 
-  const cached = readCachedPath(cacheKey);
-  if (cached) {
+  const cached = PATH_CACHE.get(cacheKey);
+  if (cached !== undefined) {
     return cached;
   }
 
   if (
-    topLeftCornerRadius === topRightCornerRadius &&
-    topRightCornerRadius === bottomRightCornerRadius &&
-    bottomRightCornerRadius === bottomLeftCornerRadius &&
-    bottomLeftCornerRadius === topLeftCornerRadius
+    topLeftCornerRadius === 0 &&
+    topRightCornerRadius === 0 &&
+    bottomRightCornerRadius === 0 &&
+    bottomLeftCornerRadius === 0
   ) {
-    if (topLeftCornerRadius === 0) {
-      const rectanglePath = `M ${width} 0 L ${width} ${height} L 0 ${height} L 0 0 Z`;
-      storeCachedPath(cacheKey, rectanglePath);
-      return rectanglePath;
-    }
+    const rectanglePath = `M ${width} 0 L ${width} ${height} L 0 ${height} L 0 0 Z`;
+    PATH_CACHE.set(cacheKey, rectanglePath);
+    return rectanglePath;
+  }
+
+  const path = usesCubicCorners(curve)
+    ? joinCubicCorners(
+        resolveCubicCorners(input, curve, superellipseExponent),
+        precision,
+      )
+    : joinCornerProfiles(resolveCornerPatches(input), precision);
+  PATH_CACHE.set(cacheKey, path);
+  return path;
+}
 
-    const budget = Math.min(width, height) / 2;
-    const radius = Math.min(topLeftCornerRadius, budget);
-
-    const pathParams = computeCornerProfile({
-      cornerRadius: radius,
-      cornerSmoothing,
-      preserveSmoothing,
-      roundingAndSmoothingBudget: budget,
-    });
-
-    const path = joinCornerProfiles({
-      width,
-      height,
-      topLeftPathParams: pathParams,
-      topRightPathParams: pathParams,
-      bottomLeftPathParams: pathParams,
-      bottomRightPathParams: pathParams,
-    });
-    storeCachedPath(cacheKey, path);
-    return path;
+/**
+ * Measures the arc length of the outline produced by `buildSquirclePath`, walking
+ * the same corner patches: two mirrored cubic beziers and a circular arc per
+ * rounded corner plus the straight edges between them, or the cubics of the
+ * cubic-only curves.
+ *
+ * @param input SquirclePathInput describing the desired geometry.
+ * @returns number Perimeter of the squircle in logical pixels.
+ */
+export function measureSquirclePath(input: SquirclePathInput) {
+  const { curve } = input;
+  if (usesCubicCorners(curve)) {
+    const { width, height, topLeft, topRight, bottomRight, bottomLeft } =
+      resolveCubicCorners(
+        input,
+        curve,
+        input.superellipseExponent ?? DEFAULT_SUPERELLIPSE_EXPONENT,
+      );
+    return (
+      width -
+      topRight.p -
+      topLeft.p +
+      (height - topRight.p - bottomRight.p) +
+      (width - bottomRight.p - bottomLeft.p) +
+      (height - bottomLeft.p - topLeft.p) +
+      measureCubicCorner(topLeft) +
+      measureCubicCorner(topRight) +
+      measureCubicCorner(bottomRight) +
+      measureCubicCorner(bottomLeft)
+    );
   }
 
-  const corners = normalizeCorners({
-    topLeftCornerRadius,
-    topRightCornerRadius,
-    bottomRightCornerRadius,
-    bottomLeftCornerRadius,
+  const {
     width,
     height,
-  });
+    topLeftPathParams,
+    topRightPathParams,
+    bottomRightPathParams,
+    bottomLeftPathParams,
+  } = resolveCornerPatches(input);
+
+  const edges =
+    width -
+    topRightPathParams.p -
+    topLeftPathParams.p +
+    (height - topRightPathParams.p - bottomRightPathParams.p) +
+    (width - bottomRightPathParams.p - bottomLeftPathParams.p) +
+    (height - bottomLeftPathParams.p - topLeftPathParams.p);
+
+  return (
+    edges +
+    measureCornerPatch(topLeftPathParams) +
+    measureCornerPatch(topRightPathParams) +
+    measureCornerPatch(bottomRightPathParams) +
+    measureCornerPatch(bottomLeftPathParams)
+  );
+}
 
-  const path = joinCornerProfiles({
-    width,
-    height,
-    topLeftPathParams: computeCornerProfile({
-      cornerRadius: corners.topLeft.radius,
-      cornerSmoothing,
-      preserveSmoothing,
-      roundingAndSmoothingBudget: corners.topLeft.roundingAndSmoothingBudget,
-    }),
-    topRightPathParams: computeCornerProfile({
-      cornerRadius: corners.topRight.radius,
-      cornerSmoothing,
-      preserveSmoothing,
-      roundingAndSmoothingBudget: corners.topRight.roundingAndSmoothingBudget,
-    }),
-    bottomRightPathParams: computeCornerProfile({
-      cornerRadius: corners.bottomRight.radius,
-      cornerSmoothing,
-      preserveSmoothing,
-      roundingAndSmoothingBudget:
-        corners.bottomRight.roundingAndSmoothingBudget,
-    }),
-    bottomLeftPathParams: computeCornerProfile({
-      cornerRadius: corners.bottomLeft.radius,
-      cornerSmoothing,
-      preserveSmoothing,
-      roundingAndSmoothingBudget: corners.bottomLeft.roundingAndSmoothingBudget,
-    }),
+/**
+ * Resolves the cached bezier patch of every corner.
+ *
+ * @param input SquirclePathInput describing the desired geometry.
+ * @returns PathParamsInput Frame size and the four corner patches.
+ */
+function resolveCornerPatches(input: SquirclePathInput): PathParamsInput {
+  const budgets = resolveCornerBudgets(input);
+
+  return {
+    width: budgets.width,
+    height: budgets.height,
+    topLeftPathParams: computeCornerProfile(budgets.topLeft),
+    topRightPathParams: computeCornerProfile(budgets.topRight),
+    bottomRightPathParams: computeCornerProfile(budgets.bottomRight),
+    bottomLeftPathParams: computeCornerProfile(budgets.bottomLeft),
+  };
+}
+
+/**
+ * Resolves the cached cubic corners of a cubic-only curve.
+ *
+ * @param input SquirclePathInput describing the desired geometry.
+ * @param curve `'superellipse'` or `'apple-continuous'`.
+ * @param exponent Superellipse exponent.
+ * @returns CubicCornersInput Frame size and the four cubic corners.
+ */
+function resolveCubicCorners(
+  input: SquirclePathInput,
+  curve: SquircleCurve,
+  exponent: number,
+): CubicCornersInput {
+  const budgets = resolveCornerBudgets(input);
+  const corner = (patchInput: BezierPatchInput) =>
+    computeCubicCornerProfile(patchInput, curve, exponent);
+
+  return {
+    width: budgets.width,
+    height: budgets.height,
+    topLeft: corner(budgets.topLeft),
+    topRight: corner(budgets.topRight),
+    bottomRight: corner(budgets.bottomRight),
+    bottomLeft: corner(budgets.bottomLeft),
+  };
+}
+
+/**
+ * Changes how many entries the path and corner caches keep. Shrinking a cache evicts
+ * its least recently used entries right away.
+ *
+ * @param options New limits; omitted limits stay unchanged.
+ * @throws Error when a limit is not a non-negative integer.
+ */
+export function configureSquircleCache({
+  pathLimit,
+  profileLimit,
+}: SquircleCacheOptions) {
+  [pathLimit, profileLimit].forEach((limit) => {
+    if (limit !== undefined && !(Number.isInteger(limit) && limit >= 0)) {
+      throw new Error(INVALID_CACHE_LIMIT_ERROR);
+    }
   });
 
-  storeCachedPath(cacheKey, path);
-  return path;
+  if (pathLimit !== undefined) {
+    PATH_CACHE.setLimit(pathLimit);
+  }
+  if (profileLimit !== undefined) {
+    CORNER_PROFILE_CACHE.setLimit(profileLimit);
+  }
+}
+
+/**
+ * Reports the size, limit and hit, miss and eviction counts of both caches since
+ * they were last cleared.
+ *
+ * @returns SquircleCacheStats Counters for the path and corner caches.
+ */
+export function getSquircleCacheStats(): SquircleCacheStats {
+  return {
+    paths: PATH_CACHE.stats(),
+    profiles: CORNER_PROFILE_CACHE.stats(),
+  };
+}
+
+/**
+ * Drops every cached path and corner patch and resets the counters. Limits are kept.
+ */
+export function clearSquircleCache() {
+  PATH_CACHE.clear();
+  CORNER_PROFILE_CACHE.clear();
 }
 
 /**
@@ -145,7 +274,11 @@ export function buildSquirclePath({
  * @param data.width Layout width.
  * @param data.height Layout height.
  * @param data.cornerSmoothing Smoothing factor.
+ * @param data.topLeftCornerSmoothing Top-left smoothing (and likewise for the other corners).
  * @param data.preserveSmoothing Whether smoothing is preserved.
+ * @param data.curve Corner curve.
+ * @param data.superellipseExponent Exponent of the superellipse curve.
+ * @param data.precision Decimal places of the path coordinates.
  * @param data.cornerRadius Base corner radius.
  * @param data.topLeftCornerRadius Top-left override.
  * @param data.topRightCornerRadius Top-right override.
@@ -157,7 +290,14 @@ function composeCacheKey(data: {
   width: number;
   height: number;
   cornerSmoothing: number;
+  topLeftCornerSmoothing: number;
+  topRightCornerSmoothing: number;
+  bottomRightCornerSmoothing: number;
+  bottomLeftCornerSmoothing: number;
   preserveSmoothing: boolean;
+  curve: SquircleCurve;
+  superellipseExponent: number;
+  precision: number;
   cornerRadius: number;
   topLeftCornerRadius: number;
   topRightCornerRadius: number;
@@ -168,7 +308,14 @@ function composeCacheKey(data: {
     data.width.toFixed(2),
     data.height.toFixed(2),
     data.cornerSmoothing.toFixed(4),
+    data.topLeftCornerSmoothing.toFixed(4),
+    data.topRightCornerSmoothing.toFixed(4),
+    data.bottomRightCornerSmoothing.toFixed(4),
+    data.bottomLeftCornerSmoothing.toFixed(4),
     data.preserveSmoothing ? '1' : '0',
+    data.curve,
+    data.superellipseExponent.toFixed(4),
+    data.precision,
     data.cornerRadius.toFixed(2),
     data.topLeftCornerRadius.toFixed(2),
     data.topRightCornerRadius.toFixed(2),
@@ -177,140 +324,6 @@ function composeCacheKey(data: {
   ].join('|');
 }
 
-/**
- * Reads a previously cached path string for the provided key.
- *
- * @param key Cache key created by composeCacheKey.
- * @returns string | undefined Cached path or undefined when missing.
- */
-function readCachedPath(key: string) {
-  return PATH_CACHE_MAP.get(key);
-}
-
-/**
- * Stores a path string in the cache while pruning the oldest entry when the cache
- * is at capacity.
- *
- * @param key Cache key.
- * @param value SVG path string to store.
- */
-function storeCachedPath(key: string, value: string) {
-  if (PATH_CACHE_MAP.size >= PATH_CACHE_LIMIT && !PATH_CACHE_MAP.has(key)) {
-    const iterator = PATH_CACHE_MAP.keys().next();
-    if (!iterator.done) {
-      PATH_CACHE_MAP.delete(iterator.value);
-    }
-  }
-  PATH_CACHE_MAP.set(key, value);
-}
-
-type EdgeOrientation = 'top' | 'bottom' | 'left' | 'right';
-
-const ADJACENT_RELATIONS: Record<
-  CornerId,
-  { side: EdgeOrientation; corner: CornerId }[]
-> = {
-  topLeft: [
-    { corner: 'topRight', side: 'top' },
-    { corner: 'bottomLeft', side: 'left' },
-  ],
-  topRight: [
-    { corner: 'topLeft', side: 'top' },
-    { corner: 'bottomRight', side: 'right' },
-  ],
-  bottomLeft: [
-    { corner: 'bottomRight', side: 'bottom' },
-    { corner: 'topLeft', side: 'left' },
-  ],
-  bottomRight: [
-    { corner: 'bottomLeft', side: 'bottom' },
-    { corner: 'topRight', side: 'right' },
-  ],
-};
-
-/**
- * Normalizes corner radii so the sum of adjacent radii never exceeds the edge
- * length while preserving the relative ratios.
- *
- * @param topLeftCornerRadius Desired top-left radius.
- * @param topRightCornerRadius Desired top-right radius.
- * @param bottomRightCornerRadius Desired bottom-right radius.
- * @param bottomLeftCornerRadius Desired bottom-left radius.
- * @param width Available width.
- * @param height Available height.
- * @returns CornerProfiles Corner profiles with clamped radii and budgets.
- */
-function normalizeCorners({
-  topLeftCornerRadius,
-  topRightCornerRadius,
-  bottomRightCornerRadius,
-  bottomLeftCornerRadius,
-  width,
-  height,
-}: CornerSpreadInput): CornerProfiles {
-  const radiusMap: Record<CornerId, number> = {
-    topLeft: topLeftCornerRadius,
-    topRight: topRightCornerRadius,
-    bottomLeft: bottomLeftCornerRadius,
-    bottomRight: bottomRightCornerRadius,
-  };
-
-  const budgetMap: Record<CornerId, number> = {
-    topLeft: -1,
-    topRight: -1,
-    bottomLeft: -1,
-    bottomRight: -1,
-  };
-
-  Object.entries(radiusMap)
-    .sort(([, r1], [, r2]) => r2 - r1)
-    .forEach(([cornerName, radius]) => {
-      const corner = cornerName as CornerId;
-      const adjacents = ADJACENT_RELATIONS[corner];
-
-      const budget = Math.min(
-        ...adjacents.map(({ corner: adjacentCorner, side }) => {
-          const adjacentRadius = radiusMap[adjacentCorner];
-          if (radius === 0 && adjacentRadius === 0) {
-            return 0;
-          }
-
-          const adjacentBudget = budgetMap[adjacentCorner];
-          const sideLength =
-            side === 'top' || side === 'bottom' ? width : height;
-
-          if (adjacentBudget >= 0) {
-            return sideLength - adjacentBudget;
-          }
-
-          return (radius / (radius + adjacentRadius)) * sideLength;
-        }),
-      );
-
-      budgetMap[corner] = budget;
-      radiusMap[corner] = Math.min(radius, budget);
-    });
-
-  return {
-    topLeft: {
-      radius: radiusMap.topLeft,
-      roundingAndSmoothingBudget: budgetMap.topLeft,
-    },
-    topRight: {
-      radius: radiusMap.topRight,
-      roundingAndSmoothingBudget: budgetMap.topRight,
-    },
-    bottomLeft: {
-      radius: radiusMap.bottomLeft,
-      roundingAndSmoothingBudget: budgetMap.bottomLeft,
-    },
-    bottomRight: {
-      radius: radiusMap.bottomRight,
-      roundingAndSmoothingBudget: budgetMap.bottomRight,
-    },
-  };
-}
-
 /**
  * Computes the cubic bezier segments that emulate a single squircle corner.
  *
@@ -332,68 +345,17 @@ function computeCornerProfile({
     preserveSmoothing,
     roundingAndSmoothingBudget,
   });
-  const cached = CORNER_PROFILE_CACHE.get(cacheKey);
-  if (cached) {
+  const cached = CORNER_PROFILE_CACHE.get(cacheKey) as BezierPatch | undefined;
+  if (cached !== undefined) {
     return cached;
   }
 
-  if (cornerRadius <= 0 || roundingAndSmoothingBudget <= 0) {
-    const profile: BezierPatch = {
-      a: 0,
-      b: 0,
-      c: 0,
-      d: 0,
-      p: 0,
-      cornerRadius: 0,
-      arcSectionLength: 0,
-    };
-    CORNER_PROFILE_CACHE.set(cacheKey, profile);
-    return profile;
-  }
-
-  let p = (1 + cornerSmoothing) * cornerRadius;
-
-  if (!preserveSmoothing) {
-    const maxSmoothing = roundingAndSmoothingBudget / cornerRadius - 1;
-    cornerSmoothing = Math.min(cornerSmoothing, maxSmoothing);
-    p = Math.min(p, roundingAndSmoothingBudget);
-  }
-
-  const arcMeasure = 90 * (1 - cornerSmoothing);
-  const arcSectionLength =
-    Math.sin(degToRad(arcMeasure / 2)) * cornerRadius * Math.SQRT2;
-
-  const angleAlpha = (90 - arcMeasure) / 2;
-  const p3ToP4Distance = cornerRadius * Math.tan(degToRad(angleAlpha / 2));
-
-  const angleBeta = 45 * cornerSmoothing;
-  const c = p3ToP4Distance * Math.cos(degToRad(angleBeta));
-  const d = c * Math.tan(degToRad(angleBeta));
-
-  let b = (p - arcSectionLength - c - d) / 3;
-  let a = 2 * b;
-
-  if (preserveSmoothing && p > roundingAndSmoothingBudget) {
-    const p1ToP3MaxDistance =
-      roundingAndSmoothingBudget - d - arcSectionLength - c;
-    const minA = p1ToP3MaxDistance / 6;
-    const maxB = p1ToP3MaxDistance - minA;
-
-    b = Math.min(b, maxB);
-    a = p1ToP3MaxDistance - b;
-    p = Math.min(p, roundingAndSmoothingBudget);
-  }
-
-  const profile: BezierPatch = {
-    a,
-    b,
-    c,
-    d,
-    p,
+  const profile = computeCornerPatch({
     cornerRadius,
-    arcSectionLength,
-  };
-
+    cornerSmoothing,
+    preserveSmoothing,
+    roundingAndSmoothingBudget,
+  });
   CORNER_PROFILE_CACHE.set(cacheKey, profile);
   return profile;
 }
@@ -421,6 +383,36 @@ function cornerProfileCacheKey({
   ].join('|');
 }
 
+/**
+ * Computes a cubic corner through the corner cache, keyed apart from the Figma
+ * patches by its curve.
+ *
+ * @param input Radius and budget of the corner.
+ * @param curve `'superellipse'` or `'apple-continuous'`.
+ * @param exponent Superellipse exponent.
+ * @returns CubicCorner Corner cubics in the local corner frame.
+ */
+function computeCubicCornerProfile(
+  input: BezierPatchInput,
+  curve: SquircleCurve,
+  exponent: number,
+) {
+  const cacheKey = [
+    curve,
+    curve === 'superellipse' ? exponent.toFixed(4) : '',
+    input.cornerRadius.toFixed(3),
+    input.roundingAndSmoothingBudget.toFixed(3),
+  ].join('|');
+  const cached = CORNER_PROFILE_CACHE.get(cacheKey) as CubicCorner | undefined;
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const corner = computeCubicCorner(input, curve, exponent);
+  CORNER_PROFILE_CACHE.set(cacheKey, corner);
+  return corner;
+}
+
 type PathParamsInput = {
   width: number;
   height: number;
@@ -440,57 +432,100 @@ type PathParamsInput = {
  * @param topRightPathParams Corner patch for top-right.
  * @param bottomLeftPathParams Corner patch for bottom-left.
  * @param bottomRightPathParams Corner patch for bottom-right.
+ * @param precision Decimal places of the coordinates.
  * @returns string Final SVG path string.
  */
-function joinCornerProfiles({
-  width,
-  height,
-  topLeftPathParams,
-  topRightPathParams,
-  bottomLeftPathParams,
-  bottomRightPathParams,
-}: PathParamsInput) {
+function joinCornerProfiles(
+  {
+    width,
+    height,
+    topLeftPathParams,
+    topRightPathParams,
+    bottomLeftPathParams,
+    bottomRightPathParams,
+  }: PathParamsInput,
+  precision: number,
+) {
+  const format = formatSegment(precision);
   const segments = [
-    `M ${width - topRightPathParams.p} 0`,
-    traceTopRight(topRightPathParams),
-    `L ${width} ${height - bottomRightPathParams.p}`,
-    traceBottomRight(bottomRightPathParams),
-    `L ${bottomLeftPathParams.p} ${height}`,
-    traceBottomLeft(bottomLeftPathParams),
-    `L 0 ${topLeftPathParams.p}`,
-    traceTopLeft(topLeftPathParams),
+    format`M ${width - topRightPathParams.p} 0`,
+    traceTopRight(topRightPathParams, precision),
+    format`L ${width} ${height - bottomRightPathParams.p}`,
+    traceBottomRight(bottomRightPathParams, precision),
+    format`L ${bottomLeftPathParams.p} ${height}`,
+    traceBottomLeft(bottomLeftPathParams, precision),
+    format`L 0 ${topLeftPathParams.p}`,
+    traceTopLeft(topLeftPathParams, precision),
     'Z',
   ];
 
   return segments.join(' ');
 }
 
+type CubicCornersInput = {
+  width: number;
+  height: number;
+  topLeft: CubicCorner;
+  topRight: CubicCorner;
+  bottomRight: CubicCorner;
+  bottomLeft: CubicCorner;
+};
+
+/**
+ * Builds the complete path of a cubic-only curve from its four corners and the
+ * straight segments that connect them.
+ *
+ * @param corners Frame size and the four cubic corners.
+ * @param precision Decimal places of the coordinates.
+ * @returns string Final SVG path string.
+ */
+function joinCubicCorners(
+  {
+    width,
+    height,
+    topLeft,
+    topRight,
+    bottomRight,
+    bottomLeft,
+  }: CubicCornersInput,
+  precision: number,
+) {
+  const format = formatSegment(precision);
+  return [
+    format`M ${width - topRight.p} 0`,
+    traceCubicCorner(topRight, 1, 0, 0, 1, precision),
+    format`L ${width} ${height - bottomRight.p}`,
+    traceCubicCorner(bottomRight, 0, 1, -1, 0, precision),
+    format`L ${bottomLeft.p} ${height}`,
+    traceCubicCorner(bottomLeft, -1, 0, 0, -1, precision),
+    format`L 0 ${topLeft.p}`,
+    traceCubicCorner(topLeft, 0, -1, 1, 0, precision),
+    'Z',
+  ].join(' ');
+}
+
 /**
  * Generates the SVG commands for the top-right corner patch.
  *
  * @param cornerRadius Radius for the corner (0 means straight line).
  * @param a,b,c,d,p Bezier helper distances computed earlier.
  * @param arcSectionLength Arc segment length for smoothing.
+ * @param precision Decimal places of the coordinates.
  * @returns string SVG command string segment.
  */
-function traceTopRight({
-  cornerRadius,
-  a,
-  b,
-  c,
-  d,
-  p,
-  arcSectionLength,
-}: BezierPatch) {
+function traceTopRight(
+  { cornerRadius, a, b, c, d, p, arcSectionLength }: BezierPatch,
+  precision: number,
+) {
   if (cornerRadius) {
-    return formatSegment`
+    return formatSegment(precision)`
     c ${a} 0 ${a + b} 0 ${a + b + c} ${d}
     a ${cornerRadius} ${cornerRadius} 0 0 1 ${arcSectionLength} ${arcSectionLength}
     c ${d} ${c}
         ${d} ${b + c}
         ${d} ${a + b + c}`;
   }
-  return formatSegment`l ${p} 0`;
+  return formatSegment(precision)`l ${p} 0`;
 }
 
 /**
@@ -499,19 +534,15 @@ function traceTopRight({
  * @param cornerRadius Radius for the corner.
  * @param a,b,c,d,p Bezier helper distances.
  * @param arcSectionLength Arc segment length.
+ * @param precision Decimal places of the coordinates.
  * @returns string SVG command string segment.
  */
-function traceBottomRight({
-  cornerRadius,
-  a,
-  b,
-  c,
-  d,
-  p,
-  arcSectionLength,
-}: BezierPatch) {
+function traceBottomRight(
+  { cornerRadius, a, b, c, d, p, arcSectionLength }: BezierPatch,
+  precision: number,
+) {
   if (cornerRadius) {
-    return formatSegment`
+    return formatSegment(precision)`
     c 0 ${a}
       0 ${a + b}
       ${-d} ${a + b + c}
@@ -520,7 +551,7 @@ function traceBottomRight({
       ${-(b + c)} ${d}
       ${-(a + b + c)} ${d}`;
   }
-  return formatSegment`l 0 ${p}`;
+  return formatSegment(precision)`l 0 ${p}`;
 }
 
 /**
@@ -529,19 +560,15 @@ function traceBottomRight({
  * @param cornerRadius Radius for the corner.
  * @param a,b,c,d,p Bezier helper distances.
  * @param arcSectionLength Arc segment length.
+ * @param precision Decimal places of the coordinates.
  * @returns string SVG command string segment.
  */
-function traceBottomLeft({
-  cornerRadius,
-  a,
-  b,
-  c,
-  d,
-  p,
-  arcSectionLength,
-}: BezierPatch) {
+function traceBottomLeft(
+  { cornerRadius, a, b, c, d, p, arcSectionLength }: BezierPatch,
+  precision: number,
+) {
   if (cornerRadius) {
-    return formatSegment`
+    return formatSegment(precision)`
     c ${-a} 0
       ${-(a + b)} 0
       ${-(a + b + c)} ${-d}
@@ -550,7 +577,7 @@ function traceBottomLeft({
       ${-d} ${-(b + c)}
       ${-d} ${-(a + b + c)}`;
   }
-  return formatSegment`l ${-p} 0`;
+  return formatSegment(precision)`l ${-p} 0`;
 }
 
 /**
@@ -559,19 +586,15 @@ function traceBottomLeft({
  * @param cornerRadius Radius for the corner.
  * @param a,b,c,d,p Bezier helper distances.
  * @param arcSectionLength Arc segment length.
+ * @param precision Decimal places of the coordinates.
  * @returns string SVG command string segment.
  */
-function traceTopLeft({
-  cornerRadius,
-  a,
-  b,
-  c,
-  d,
-  p,
-  arcSectionLength,
-}: BezierPatch) {
+function traceTopLeft(
+  { cornerRadius, a, b, c, d, p, arcSectionLength }: BezierPatch,
+  precision: number,
+) {
   if (cornerRadius) {
-    return formatSegment`
+    return formatSegment(precision)`
     c 0 ${-a}
       0 ${-(a + b)}
       ${d} ${-(a + b + c)}
@@ -580,32 +603,116 @@ function traceTopLeft({
       ${b + c} ${-d}
       ${a + b + c} ${-d}`;
   }
-  return formatSegment`l 0 ${-p}`;
+  return formatSegment(precision)`l 0 ${-p}`;
+}
+
+/**
+ * Legendre-Gauss abscissae and weights used to integrate bezier arc lengths.
+ */
+const GAUSS_LEGENDRE_NODES: [number, number][] = [
+  [-0.9602898564975363, 0.1012285362903763],
+  [-0.7966664774136267, 0.2223810344533745],
+  [-0.525532409916329, 0.3137066458778873],
+  [-0.1834346424956498, 0.362683783378362],
+  [0.1834346424956498, 0.362683783378362],
+  [0.525532409916329, 0.3137066458778873],
+  [0.7966664774136267, 0.2223810344533745],
+  [0.9602898564975363, 0.1012285362903763],
+];
+
+/**
+ * Measures the outline length of a single corner patch. Both bezier halves are mirror
+ * images of each other, so only the first one is integrated.
+ *
+ * @param patch Corner patch produced by computeCornerProfile.
+ * @returns number Length of the corner, or `p` for square corners.
+ */
+function measureCornerPatch({
+  cornerRadius,
+  a,
+  b,
+  c,
+  d,
+  p,
+  arcSectionLength,
+}: BezierPatch) {
+  if (!cornerRadius) {
+    return p;
+  }
+
+  const bezierLength = measureCubic(a, 0, a + b, 0, a + b + c, d);
+  const chord = arcSectionLength * Math.SQRT2;
+  const arcAngle = 2 * Math.asin(Math.min(1, chord / (2 * cornerRadius)));
+
+  return bezierLength * 2 + arcAngle * cornerRadius;
 }
 
 /**
- * Converts degrees to radians.
+ * Measures the outline length of a cubic corner by integrating each cubic.
  *
- * @param degrees Value in degrees.
- * @returns number Value converted to radians.
+ * @param corner Corner produced by computeCubicCornerProfile.
+ * @returns number Length of the corner.
  */
-function degToRad(degrees: number) {
-  return (degrees * Math.PI) / 180;
+function measureCubicCorner({ points }: CubicCorner) {
+  let length = 0;
+  let startU = 0;
+  let startV = 0;
+  for (let index = 0; index < points.length; index += 6) {
+    length += measureCubic(
+      points[index] - startU,
+      points[index + 1] - startV,
+      points[index + 2] - startU,
+      points[index + 3] - startV,
+      points[index + 4] - startU,
+      points[index + 5] - startV,
+    );
+    startU = points[index + 4];
+    startV = points[index + 5];
+  }
+  return length;
 }
 
 /**
- * Formats template literal segments with numeric values rounded to 4 decimals.
+ * Integrates the length of a cubic bezier that starts at the origin.
  *
- * @param strings Template literal segments.
- * @param values Numeric values interleaved with the strings.
- * @returns string Concatenated string with numbers rounded to 4 decimals.
+ * @param x1,y1 First control point.
+ * @param x2,y2 Second control point.
+ * @param x3,y3 End point.
+ * @returns number Arc length of the curve.
  */
-function formatSegment(strings: TemplateStringsArray, ...values: number[]) {
-  return strings.reduce((acc, str, index) => {
-    const value = values[index];
-    if (value !== undefined) {
-      return acc + str + value.toFixed(4);
-    }
-    return acc + str;
-  }, '');
+function measureCubic(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  x3: number,
+  y3: number,
+) {
+  return GAUSS_LEGENDRE_NODES.reduce((length, [node, weight]) => {
+    const t = (node + 1) / 2;
+    const mt = 1 - t;
+    const dx =
+      3 * mt * mt * x1 + 6 * mt * t * (x2 - x1) + 3 * t * t * (x3 - x2);
+    const dy =
+      3 * mt * mt * y1 + 6 * mt * t * (y2 - y1) + 3 * t * t * (y3 - y2);
+    return length + (weight * Math.hypot(dx, dy)) / 2;
+  }, 0);
+}
+
+/**
+ * Creates a template literal tag that rounds interpolated numbers to a fixed
+ * number of decimals.
+ *
+ * @param precision Decimal places for every interpolated number.
+ * @returns Tag that concatenates the segments with rounded numbers.
+ */
+function formatSegment(precision: number) {
+  return (strings: TemplateStringsArray, ...values: number[]) =>
+    strings.reduce((acc, str, index) => {
+      const value = values[index];
+      if (value !== undefined) {
+        return acc + str + value.toFixed(precision);
+      }
+      return acc + str;
+    }, '');
 }
@@ -0,0 +1,510 @@
+/**
+ * @file packages/expo-squircle/src/core/squircleWorklets.ts
+ * @description Cache-free squircle math that can run as Reanimated worklets on the UI thread.
+ *
+ * Functions are declared in dependency order: the worklet transform captures callees
+ * when a worklet is defined, so a worklet must come after everything it calls.
+ *
+ * Exports
+ *   - normalizeCorners
+ *   - computeCornerPatch
+ *   - resolveCornerBudgets
+ *   - buildSquirclePathWorklet
+ *   - interpolateSquirclePath
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import {
+  computeCubicCorner,
+  DEFAULT_SUPERELLIPSE_EXPONENT,
+  traceCubicCorner,
+  usesCubicCorners,
+} from './cornerCurves';
+import type {
+  BezierPatch,
+  BezierPatchInput,
+  CornerBudgets,
+  CornerId,
+  CornerProfiles,
+  CornerSpreadInput,
+  SquirclePathInput,
+} from './types';
+
+type EdgeOrientation = 'top' | 'bottom' | 'left' | 'right';
+
+const ADJACENT_RELATIONS: Record<
+  CornerId,
+  { side: EdgeOrientation; corner: CornerId }[]
+> = {
+  topLeft: [
+    { corner: 'topRight', side: 'top' },
+    { corner: 'bottomLeft', side: 'left' },
+  ],
+  topRight: [
+    { corner: 'topLeft', side: 'top' },
+    { corner: 'bottomRight', side: 'right' },
+  ],
+  bottomLeft: [
+    { corner: 'bottomRight', side: 'bottom' },
+    { corner: 'topLeft', side: 'left' },
+  ],
+  bottomRight: [
+    { corner: 'bottomLeft', side: 'bottom' },
+    { corner: 'topRight', side: 'right' },
+  ],
+};
+
+/**
+ * Converts degrees to radians.
+ *
+ * @param degrees Value in degrees.
+ * @returns number Value converted to radians.
+ */
+function degToRad(degrees: number) {
+  'worklet';
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Formats a number with the default 4-decimal precision of `buildSquirclePath`.
+ *
+ * @param value Number to format.
+ * @returns string Rounded number.
+ */
+function formatNumber(value: number) {
+  'worklet';
+  return value.toFixed(4);
+}
+
+/**
+ * Normalizes corner radii so the sum of adjacent radii never exceeds the edge
+ * length while preserving the relative ratios.
+ *
+ * @param topLeftCornerRadius Desired top-left radius.
+ * @param topRightCornerRadius Desired top-right radius.
+ * @param bottomRightCornerRadius Desired bottom-right radius.
+ * @param bottomLeftCornerRadius Desired bottom-left radius.
+ * @param width Available width.
+ * @param height Available height.
+ * @returns CornerProfiles Corner profiles with clamped radii and budgets.
+ */
+export function normalizeCorners({
+  topLeftCornerRadius,
+  topRightCornerRadius,
+  bottomRightCornerRadius,
+  bottomLeftCornerRadius,
+  width,
+  height,
+}: CornerSpreadInput): CornerProfiles {
+  'worklet';
+  const radiusMap: Record<CornerId, number> = {
+    topLeft: topLeftCornerRadius,
+    topRight: topRightCornerRadius,
+    bottomLeft: bottomLeftCornerRadius,
+    bottomRight: bottomRightCornerRadius,
+  };
+
+  const budgetMap: Record<CornerId, number> = {
+    topLeft: -1,
+    topRight: -1,
+    bottomLeft: -1,
+    bottomRight: -1,
+  };
+
+  Object.entries(radiusMap)
+    .sort(([, r1], [, r2]) => r2 - r1)
+    .forEach(([cornerName, radius]) => {
+      const corner = cornerName as CornerId;
+      const adjacents = ADJACENT_RELATIONS[corner];
+
+      const budget = Math.min(
+        ...adjacents.map(({ corner: adjacentCorner, side }) => {
+          const adjacentRadius = radiusMap[adjacentCorner];
+          if (radius === 0 && adjacentRadius === 0) {
+            return 0;
+          }
+
+          const adjacentBudget = budgetMap[adjacentCorner];
+          const sideLength =
+            side === 'top' || side === 'bottom' ? width : height;
+
+          if (adjacentBudget >= 0) {
+            return sideLength - adjacentBudget;
+          }
+
+          return (radius / (radius + adjacentRadius)) * sideLength;
+        }),
+      );
+
+      budgetMap[corner] = budget;
+      radiusMap[corner] = Math.min(radius, budget);
+    });
+
+  return {
+    topLeft: {
+      radius: radiusMap.topLeft,
+      roundingAndSmoothingBudget: budgetMap.topLeft,
+    },
+    topRight: {
+      radius: radiusMap.topRight,
+      roundingAndSmoothingBudget: budgetMap.topRight,
+    },
+    bottomLeft: {
+      radius: radiusMap.bottomLeft,
+      roundingAndSmoothingBudget: budgetMap.bottomLeft,
+    },
+    bottomRight: {
+      radius: radiusMap.bottomRight,
+      roundingAndSmoothingBudget: budgetMap.bottomRight,
+    },
+  };
+}
+
+/**
+ * Computes the bezier distances of a single corner without touching any cache, so
+ * it can also run as a worklet on the UI thread.
+ *
+ * @param cornerRadius Desired radius for the corner.
+ * @param cornerSmoothing Smoothing factor for the corner.
+ * @param preserveSmoothing Whether to keep smoothing when clamped.
+ * @param roundingAndSmoothingBudget Available length budget for rounding.
+ * @returns BezierPatch describing the corner path.
+ */
+export function computeCornerPatch({
+  cornerRadius,
+  cornerSmoothing,
+  preserveSmoothing,
+  roundingAndSmoothingBudget,
+}: BezierPatchInput): BezierPatch {
+  'worklet';
+  if (cornerRadius <= 0 || roundingAndSmoothingBudget <= 0) {
+    return {
+      a: 0,
+      b: 0,
+      c: 0,
+      d: 0,
+      p: 0,
+      cornerRadius: 0,
+      arcSectionLength: 0,
+    };
+  }
+
+  let p = (1 + cornerSmoothing) * cornerRadius;
+
+  if (!preserveSmoothing) {
+    const maxSmoothing = roundingAndSmoothingBudget / cornerRadius - 1;
+    cornerSmoothing = Math.min(cornerSmoothing, maxSmoothing);
+    p = Math.min(p, roundingAndSmoothingBudget);
+  }
+
+  const arcMeasure = 90 * (1 - cornerSmoothing);
+  const arcSectionLength =
+    Math.sin(degToRad(arcMeasure / 2)) * cornerRadius * Math.SQRT2;
+
+  const angleAlpha = (90 - arcMeasure) / 2;
+  const p3ToP4Distance = cornerRadius * Math.tan(degToRad(angleAlpha / 2));
+
+  const angleBeta = 45 * cornerSmoothing;
+  const c = p3ToP4Distance * Math.cos(degToRad(angleBeta));
+  const d = c * Math.tan(degToRad(angleBeta));
+
+  let b = (p - arcSectionLength - c - d) / 3;
+  let a = 2 * b;
+
+  if (preserveSmoothing && p > roundingAndSmoothingBudget) {
+    const p1ToP3MaxDistance =
+      roundingAndSmoothingBudget - d - arcSectionLength - c;
+    const minA = p1ToP3MaxDistance / 6;
+    const maxB = p1ToP3MaxDistance - minA;
+
+    b = Math.min(b, maxB);
+    a = p1ToP3MaxDistance - b;
+    p = Math.min(p, roundingAndSmoothingBudget);
+  }
+
+  return {
+    a,
+    b,
+    c,
+    d,
+    p,
+    cornerRadius,
+    arcSectionLength,
+  };
+}
+
+/**
+ * Resolves the radius, smoothing and budget of every corner, sharing one budget when
+ * all radii match and otherwise budgeting each corner against its neighbours.
+ * Per-corner smoothing falls back to `cornerSmoothing`; the `'circular'` curve
+ * turns smoothing off.
+ *
+ * @param input SquirclePathInput describing the desired geometry.
+ * @returns CornerBudgets Frame size and the patch inputs for the four corners.
+ */
+export function resolveCornerBudgets({
+  cornerRadius = 0,
+  topLeftCornerRadius,
+  topRightCornerRadius,
+  bottomRightCornerRadius,
+  bottomLeftCornerRadius,
+  cornerSmoothing,
+  topLeftCornerSmoothing = cornerSmoothing,
+  topRightCornerSmoothing = cornerSmoothing,
+  bottomRightCornerSmoothing = cornerSmoothing,
+  bottomLeftCornerSmoothing = cornerSmoothing,
+  width,
+  height,
+  preserveSmoothing = false,
+  curve,
+}: SquirclePathInput): CornerBudgets {
+  'worklet';
+  if (curve === 'circular') {
+    topLeftCornerSmoothing = 0;
+    topRightCornerSmoothing = 0;
+    bottomRightCornerSmoothing = 0;
+    bottomLeftCornerSmoothing = 0;
+  }
+  topLeftCornerRadius = topLeftCornerRadius ?? cornerRadius;
+  topRightCornerRadius = topRightCornerRadius ?? cornerRadius;
+  bottomLeftCornerRadius = bottomLeftCornerRadius ?? cornerRadius;
+  bottomRightCornerRadius = bottomRightCornerRadius ?? cornerRadius;
+
+  if (
+    topLeftCornerRadius === topRightCornerRadius &&
+    topRightCornerRadius === bottomRightCornerRadius &&
+    bottomRightCornerRadius === bottomLeftCornerRadius &&
+    bottomLeftCornerRadius === topLeftCornerRadius
+  ) {
+    const budget = Math.min(width, height) / 2;
+    const sharedRadius = Math.min(topLeftCornerRadius, budget);
+    const sharedInput = (smoothing: number): BezierPatchInput => ({
+      cornerRadius: sharedRadius,
+      cornerSmoothing: smoothing,
+      preserveSmoothing,
+      roundingAndSmoothingBudget: budget,
+    });
+
+    return {
+      width,
+      height,
+      topLeft: sharedInput(topLeftCornerSmoothing),
+      topRight: sharedInput(topRightCornerSmoothing),
+      bottomRight: sharedInput(bottomRightCornerSmoothing),
+      bottomLeft: sharedInput(bottomLeftCornerSmoothing),
+    };
+  }
+
+  const corners = normalizeCorners({
+    topLeftCornerRadius,
+    topRightCornerRadius,
+    bottomRightCornerRadius,
+    bottomLeftCornerRadius,
+    width,
+    height,
+  });
+
+  return {
+    width,
+    height,
+    topLeft: {
+      cornerRadius: corners.topLeft.radius,
+      cornerSmoothing: topLeftCornerSmoothing,
+      preserveSmoothing,
+      roundingAndSmoothingBudget: corners.topLeft.roundingAndSmoothingBudget,
+    },
+    topRight: {
+      cornerRadius: corners.topRight.radius,
+      cornerSmoothing: topRightCornerSmoothing,
+      preserveSmoothing,
+      roundingAndSmoothingBudget: corners.topRight.roundingAndSmoothingBudget,
+    },
+    bottomRight: {
+      cornerRadius: corners.bottomRight.radius,
+      cornerSmoothing: bottomRightCornerSmoothing,
+      preserveSmoothing,
+      roundingAndSmoothingBudget:
+        corners.bottomRight.roundingAndSmoothingBudget,
+    },
+    bottomLeft: {
+      cornerRadius: corners.bottomLeft.radius,
+      cornerSmoothing: bottomLeftCornerSmoothing,
+      preserveSmoothing,
+      roundingAndSmoothingBudget: corners.bottomLeft.roundingAndSmoothingBudget,
+    },
+  };
+}
+
+/**
+ * Emits the curve, arc and curve of a corner patch in relative coordinates. The
+ * corner is described in a local frame where `u` runs along the incoming edge and
+ * `v` points toward the outgoing edge, so one routine serves all four corners.
+ *
+ * @param patch Corner patch (all zero for square corners).
+ * @param ux,uy Direction of the incoming edge.
+ * @param vx,vy Direction of the outgoing edge.
+ * @returns string SVG command string segment.
+ */
+function traceStableCorner(
+  { cornerRadius, a, b, c, d, arcSectionLength }: BezierPatch,
+  ux: number,
+  uy: number,
+  vx: number,
+  vy: number,
+) {
+  'worklet';
+  const point = (u: number, v: number) =>
+    `${formatNumber(u * ux + v * vx)} ${formatNumber(u * uy + v * vy)}`;
+  const radius = formatNumber(cornerRadius);
+
+  return [
+    `c ${point(a, 0)} ${point(a + b, 0)} ${point(a + b + c, d)}`,
+    `a ${radius} ${radius} 0 0 1 ${point(arcSectionLength, arcSectionLength)}`,
+    `c ${point(d, c)} ${point(d, b + c)} ${point(d, a + b + c)}`,
+  ].join(' ');
+}
+
+/**
+ * Worklet-safe variant of `buildSquirclePath` for the UI thread. It skips the
+ * module-level caches and always emits the same command structure (a curve, an arc
+ * and a curve per corner, joined by lines, or a fixed number of cubics for the
+ * cubic-only curves), even for square corners, so paths built from different inputs
+ * with the same curve can be morphed into each other.
+ *
+ * @param input SquirclePathInput describing the desired geometry.
+ * @returns string SVG path string with a stable command structure.
+ */
+export function buildSquirclePathWorklet(input: SquirclePathInput) {
+  'worklet';
+  const budgets = resolveCornerBudgets(input);
+  const { width, height } = budgets;
+
+  if (usesCubicCorners(input.curve)) {
+    const { curve } = input;
+    const exponent =
+      input.superellipseExponent ?? DEFAULT_SUPERELLIPSE_EXPONENT;
+    const topLeft = computeCubicCorner(budgets.topLeft, curve, exponent);
+    const topRight = computeCubicCorner(budgets.topRight, curve, exponent);
+    const bottomRight = computeCubicCorner(
+      budgets.bottomRight,
+      curve,
+      exponent,
+    );
+    const bottomLeft = computeCubicCorner(budgets.bottomLeft, curve, exponent);
+
+    return [
+      `M ${formatNumber(width - topRight.p)} 0`,
+      traceCubicCorner(topRight, 1, 0, 0, 1, 4),
+      `L ${formatNumber(width)} ${formatNumber(height - bottomRight.p)}`,
+      traceCubicCorner(bottomRight, 0, 1, -1, 0, 4),
+      `L ${formatNumber(bottomLeft.p)} ${formatNumber(height)}`,
+      traceCubicCorner(bottomLeft, -1, 0, 0, -1, 4),
+      `L 0 ${formatNumber(topLeft.p)}`,
+      traceCubicCorner(topLeft, 0, -1, 1, 0, 4),
+      'Z',
+    ].join(' ');
+  }
+
+  const topLeft = computeCornerPatch(budgets.topLeft);
+  const topRight = computeCornerPatch(budgets.topRight);
+  const bottomRight = computeCornerPatch(budgets.bottomRight);
+  const bottomLeft = computeCornerPatch(budgets.bottomLeft);
+
+  return [
+    `M ${formatNumber(width - topRight.p)} 0`,
+    traceStableCorner(topRight, 1, 0, 0, 1),
+    `L ${formatNumber(width)} ${formatNumber(height - bottomRight.p)}`,
+    traceStableCorner(bottomRight, 0, 1, -1, 0),
+    `L ${formatNumber(bottomLeft.p)} ${formatNumber(height)}`,
+    traceStableCorner(bottomLeft, -1, 0, 0, -1),
+    `L 0 ${formatNumber(topLeft.p)}`,
+    traceStableCorner(topLeft, 0, -1, 1, 0),
+    'Z',
+  ].join(' ');
+}
+
+/**
+ * Interpolates between two squircle inputs and builds the intermediate path with
+ * `buildSquirclePathWorklet`. Every step shares the same command structure, also
+ * when a corner animates to or from a zero radius. The curve switches halfway when
+ * the two inputs use different curves.
+ *
+ * @param from Input at `t = 0`.
+ * @param to Input at `t = 1`.
+ * @param t Progress between the two inputs (not clamped, so springs may overshoot).
+ * @returns string SVG path string for the intermediate shape.
+ */
+export function interpolateSquirclePath(
+  from: SquirclePathInput,
+  to: SquirclePathInput,
+  t: number,
+) {
+  'worklet';
+  const mix = (start: number, end: number) => start + (end - start) * t;
+  const mixSmoothing = (start: number, end: number) =>
+    Math.min(1, Math.max(0, mix(start, end)));
+  const fromRadius = from.cornerRadius ?? 0;
+  const toRadius = to.cornerRadius ?? 0;
+
+  return buildSquirclePathWorklet({
+    width: Math.max(0, mix(from.width, to.width)),
+    height: Math.max(0, mix(from.height, to.height)),
+    cornerSmoothing: mixSmoothing(from.cornerSmoothing, to.cornerSmoothing),
+    topLeftCornerSmoothing: mixSmoothing(
+      from.topLeftCornerSmoothing ?? from.cornerSmoothing,
+      to.topLeftCornerSmoothing ?? to.cornerSmoothing,
+    ),
+    topRightCornerSmoothing: mixSmoothing(
+      from.topRightCornerSmoothing ?? from.cornerSmoothing,
+      to.topRightCornerSmoothing ?? to.cornerSmoothing,
+    ),
+    bottomRightCornerSmoothing: mixSmoothing(
+      from.bottomRightCornerSmoothing ?? from.cornerSmoothing,
+      to.bottomRightCornerSmoothing ?? to.cornerSmoothing,
+    ),
+    bottomLeftCornerSmoothing: mixSmoothing(
+      from.bottomLeftCornerSmoothing ?? from.cornerSmoothing,
+      to.bottomLeftCornerSmoothing ?? to.cornerSmoothing,
+    ),
+    preserveSmoothing: t < 0.5 ? from.preserveSmoothing : to.preserveSmoothing,
+    curve: t < 0.5 ? from.curve : to.curve,
+    superellipseExponent: Math.max(
+      2,
+      mix(
+        from.superellipseExponent ?? DEFAULT_SUPERELLIPSE_EXPONENT,
+        to.superellipseExponent ?? DEFAULT_SUPERELLIPSE_EXPONENT,
+      ),
+    ),
+    cornerRadius: Math.max(0, mix(fromRadius, toRadius)),
+    topLeftCornerRadius: Math.max(
+      0,
+      mix(
+        from.topLeftCornerRadius ?? fromRadius,
+        to.topLeftCornerRadius ?? toRadius,
+      ),
+    ),
+    topRightCornerRadius: Math.max(
+      0,
+      mix(
+        from.topRightCornerRadius ?? fromRadius,
+        to.topRightCornerRadius ?? toRadius,
+      ),
+    ),
+    bottomRightCornerRadius: Math.max(
+      0,
+      mix(
+        from.bottomRightCornerRadius ?? fromRadius,
+        to.bottomRightCornerRadius ?? toRadius,
+      ),
+    ),
+    bottomLeftCornerRadius: Math.max(
+      0,
+      mix(
+        from.bottomLeftCornerRadius ?? fromRadius,
+        to.bottomLeftCornerRadius ?? toRadius,
+      ),
+    ),
+  });
+}
@@ -0,0 +1,291 @@
+/**
+ * @file packages/expo-squircle/src/core/style.ts
+ * @description Helpers that move background, border and radius keys from a view style into squircle options and read fixed sizes from it.
+ *
+ * Exports
+ *   - splitSquircleStyle
+ *   - getStyleFrame
+ *   - getStylePadding
+ *   - splitContentStyle
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { ViewStyle } from 'react-native';
+
+import type {
+  RoundedSurfaceOptions,
+  SquircleRadius,
+} from '../ExpoSquircle.types';
+import type { MeasuredFrame, SideInsets } from './types';
+
+type RadiusOption =
+  | 'baseRadius'
+  | 'topLeftRadius'
+  | 'topRightRadius'
+  | 'bottomRightRadius'
+  | 'bottomLeftRadius';
+
+/**
+ * Style keys mapped onto radius options, from least to most specific so per-corner
+ * keys win over `borderRadius`, and logical keys win over physical ones like they
+ * do in React Native.
+ */
+const RADIUS_KEYS: [keyof ViewStyle, RadiusOption | 'start' | 'end'][] = [
+  ['borderRadius', 'baseRadius'],
+  ['borderTopLeftRadius', 'topLeftRadius'],
+  ['borderTopRightRadius', 'topRightRadius'],
+  ['borderBottomRightRadius', 'bottomRightRadius'],
+  ['borderBottomLeftRadius', 'bottomLeftRadius'],
+  ['borderTopStartRadius', 'start'],
+  ['borderTopEndRadius', 'end'],
+  ['borderBottomStartRadius', 'start'],
+  ['borderBottomEndRadius', 'end'],
+];
+
+const SIDE_WIDTH_KEYS = [
+  'borderTopWidth',
+  'borderRightWidth',
+  'borderBottomWidth',
+  'borderLeftWidth',
+] as const;
+
+const SIDE_COLOR_KEYS = [
+  'borderTopColor',
+  'borderRightColor',
+  'borderBottomColor',
+  'borderLeftColor',
+] as const;
+
+/**
+ * Logical side keys, applied after the physical ones so they win like they do in
+ * React Native.
+ */
+const LOGICAL_WIDTH_KEYS = [
+  ['borderStartWidth', 'start'],
+  ['borderEndWidth', 'end'],
+] as const;
+
+const LOGICAL_COLOR_KEYS = [
+  ['borderStartColor', 'start'],
+  ['borderEndColor', 'end'],
+] as const;
+
+/**
+ * Style keys that lay out or inset the children rather than place the view itself.
+ */
+const CONTENT_STYLE_KEYS: (keyof ViewStyle)[] = [
+  'padding',
+  'paddingHorizontal',
+  'paddingVertical',
+  'paddingTop',
+  'paddingRight',
+  'paddingBottom',
+  'paddingLeft',
+  'paddingStart',
+  'paddingEnd',
+  'paddingBlock',
+  'paddingBlockStart',
+  'paddingBlockEnd',
+  'paddingInline',
+  'paddingInlineStart',
+  'paddingInlineEnd',
+  'flexDirection',
+  'flexWrap',
+  'justifyContent',
+  'alignItems',
+  'alignContent',
+  'gap',
+  'rowGap',
+  'columnGap',
+];
+
+/**
+ * Splits a flattened view style into squircle options and the style that remains
+ * for the wrapper view. `backgroundColor`, border widths and colors (shared, per
+ * side and logical) and every border radius key are moved over when the squircle
+ * can draw their values; anything else, including animated values, stays in the
+ * style.
+ *
+ * @param style Flattened view style.
+ * @param isRTL Whether logical `start`/`end` corners and sides map to the right.
+ * @returns Adopted squircle options and the remaining view style.
+ */
+export function splitSquircleStyle(style: ViewStyle, isRTL = false) {
+  const remaining: ViewStyle = { ...style };
+  const adopted: Partial<RoundedSurfaceOptions> = {};
+
+  RADIUS_KEYS.forEach(([key, option]) => {
+    const radius = toSquircleRadius(style[key]);
+    if (radius === undefined) {
+      return;
+    }
+    delete remaining[key];
+
+    if (option === 'start' || option === 'end') {
+      const isTop = key.startsWith('borderTop');
+      const isLeft = (option === 'start') !== isRTL;
+      adopted[
+        isTop
+          ? isLeft
+            ? 'topLeftRadius'
+            : 'topRightRadius'
+          : isLeft
+          ? 'bottomLeftRadius'
+          : 'bottomRightRadius'
+      ] = radius;
+      return;
+    }
+
+    adopted[option] = radius;
+  });
+
+  if (typeof style.borderWidth === 'number') {
+    adopted.borderWidth = style.borderWidth;
+    delete remaining.borderWidth;
+  }
+
+  SIDE_WIDTH_KEYS.forEach((key) => {
+    if (typeof style[key] === 'number') {
+      adopted[key] = style[key];
+      delete remaining[key];
+    }
+  });
+
+  SIDE_COLOR_KEYS.forEach((key) => {
+    if (style[key] !== undefined) {
+      adopted[key] = style[key];
+      delete remaining[key];
+    }
+  });
+
+  LOGICAL_WIDTH_KEYS.forEach(([key, edge]) => {
+    const width = style[key];
+    if (typeof width === 'number') {
+      const isLeft = (edge === 'start') !== isRTL;
+      adopted[isLeft ? 'borderLeftWidth' : 'borderRightWidth'] = width;
+      delete remaining[key];
+    }
+  });
+
+  LOGICAL_COLOR_KEYS.forEach(([key, edge]) => {
+    const color = style[key];
+    if (color !== undefined) {
+      const isLeft = (edge === 'start') !== isRTL;
+      adopted[isLeft ? 'borderLeftColor' : 'borderRightColor'] = color;
+      delete remaining[key];
+    }
+  });
+
+  if (style.backgroundColor !== undefined) {
+    adopted.surfaceColor = style.backgroundColor;
+    delete remaining.backgroundColor;
+  }
+
+  if (style.borderColor !== undefined) {
+    adopted.borderColor = style.borderColor;
+    delete remaining.borderColor;
+  }
+
+  return { adopted, style: remaining };
+}
+
+/**
+ * Reads the frame from a style with numeric `width` and `height`, so geometry can be
+ * computed before layout. Percentages, `'auto'` and flex sizing return null.
+ *
+ * @param style Flattened view style.
+ * @returns MeasuredFrame | null Fixed size, or null when layout decides it.
+ */
+export function getStyleFrame(
+  style: ViewStyle | undefined,
+): MeasuredFrame | null {
+  const width = style?.width;
+  const height = style?.height;
+  if (
+    typeof width !== 'number' ||
+    typeof height !== 'number' ||
+    !Number.isFinite(width) ||
+    !Number.isFinite(height)
+  ) {
+    return null;
+  }
+  return { width, height };
+}
+
+/**
+ * Reads the numeric padding of every side from a style, resolving `padding`,
+ * `paddingHorizontal`/`paddingVertical`, physical sides and logical `start`/`end`
+ * sides from least to most specific. Percentages count as zero.
+ *
+ * @param style Flattened view style.
+ * @param isRTL Whether logical `start`/`end` sides map to the right side.
+ * @returns SideInsets Padding of each side in logical pixels.
+ */
+export function getStylePadding(
+  style: ViewStyle | undefined,
+  isRTL = false,
+): SideInsets {
+  const read = (...keys: (keyof ViewStyle)[]) =>
+    keys.reduce<number>((padding, key) => {
+      const value = style?.[key];
+      return typeof value === 'number' && Number.isFinite(value)
+        ? value
+        : padding;
+    }, 0);
+
+  return {
+    top: read('padding', 'paddingVertical', 'paddingTop'),
+    bottom: read('padding', 'paddingVertical', 'paddingBottom'),
+    left: read(
+      'padding',
+      'paddingHorizontal',
+      'paddingLeft',
+      isRTL ? 'paddingEnd' : 'paddingStart',
+    ),
+    right: read(
+      'padding',
+      'paddingHorizontal',
+      'paddingRight',
+      isRTL ? 'paddingStart' : 'paddingEnd',
+    ),
+  };
+}
+
+/**
+ * Splits a flattened view style between a frame view and a content view nested in
+ * it, so the children can be clipped on their own while the frame keeps drawing
+ * what bleeds past the outline. Padding and the keys that lay out the children
+ * move to the content view, which grows to fill the frame.
+ *
+ * @param style Flattened view style.
+ * @returns Style of the frame view and style of the content view.
+ */
+export function splitContentStyle(style: ViewStyle | undefined) {
+  const frame: ViewStyle = { ...style };
+  const content: ViewStyle = { flexGrow: 1 };
+
+  CONTENT_STYLE_KEYS.forEach((key) => {
+    if (frame[key] !== undefined) {
+      (content as Record<string, unknown>)[key] = frame[key];
+      delete frame[key];
+    }
+  });
+
+  return { frame, content };
+}
+
+/**
+ * Accepts numeric radii and percentage strings; returns undefined for anything the
+ * squircle cannot draw.
+ */
+function toSquircleRadius(value: unknown): SquircleRadius | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && /^\s*\d*\.?\d+\s*%\s*$/.test(value)) {
+    return value.trim() as `${number}%`;
+  }
+  return undefined;
+}
@@ -0,0 +1,143 @@
+/**
+ * @file packages/expo-squircle/src/core/surfaceFills.ts
+ * @description Helpers that validate surface images and patterns and lay out the tiles they are painted with.
+ *
+ * Exports
+ *   - PRESERVE_ASPECT_RATIO
+ *   - normalizeSurfaceImage
+ *   - normalizeSquirclePattern
+ *   - resolveImageTile
+ *   - getImageSourceUri
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { ColorValue, ImageSourcePropType } from 'react-native';
+
+import type {
+  SquircleColorScheme,
+  SquircleImageResizeMode,
+  SquirclePattern,
+  SquircleSurfaceImage,
+} from '../ExpoSquircle.types';
+import { sanitizeNumber } from './numbers';
+import { resolveSchemePaint } from './paint';
+import type {
+  MeasuredFrame,
+  NormalizedSquirclePattern,
+  NormalizedSurfaceImage,
+} from './types';
+
+/**
+ * SVG `preserveAspectRatio` value for each resize mode.
+ */
+export const PRESERVE_ASPECT_RATIO: Record<SquircleImageResizeMode, string> = {
+  cover: 'xMidYMid slice',
+  contain: 'xMidYMid meet',
+  stretch: 'none',
+};
+
+/**
+ * Resolves the optional fields of a surface image.
+ *
+ * @param image Surface image supplied by the caller.
+ * @returns NormalizedSurfaceImage | null Image ready for rendering, or null when it
+ * has no source or is fully transparent. Tile sizes that are not positive fall back
+ * to fitting the image once.
+ */
+export function normalizeSurfaceImage(
+  image: SquircleSurfaceImage | undefined,
+): NormalizedSurfaceImage | null {
+  if (!image || image.source === undefined || image.source === null) {
+    return null;
+  }
+
+  const opacity = Math.min(1, Math.max(0, sanitizeNumber(image.opacity, 1)));
+  if (opacity <= 0) {
+    return null;
+  }
+
+  const { resizeMode, tileSize } = image;
+  return {
+    source: image.source,
+    resizeMode:
+      resizeMode && resizeMode in PRESERVE_ASPECT_RATIO ? resizeMode : 'cover',
+    tileSize:
+      tileSize &&
+      sanitizeNumber(tileSize.width, 0) > 0 &&
+      sanitizeNumber(tileSize.height, 0) > 0
+        ? { width: tileSize.width, height: tileSize.height }
+        : null,
+    opacity,
+  };
+}
+
+/**
+ * Resolves the optional fields of a pattern.
+ *
+ * @param pattern Pattern supplied by the caller.
+ * @param colorScheme Active color scheme for `{ light, dark }` colors.
+ * @returns NormalizedSquirclePattern | null Pattern ready for rendering, or null when
+ * its path is empty, its tile is not positive or it is fully transparent.
+ */
+export function normalizeSquirclePattern(
+  pattern: SquirclePattern | undefined,
+  colorScheme: SquircleColorScheme,
+): NormalizedSquirclePattern | null {
+  if (
+    !pattern ||
+    typeof pattern.path !== 'string' ||
+    pattern.path.trim() === '' ||
+    sanitizeNumber(pattern.width, 0) <= 0 ||
+    sanitizeNumber(pattern.height, 0) <= 0
+  ) {
+    return null;
+  }
+
+  const opacity = Math.min(1, Math.max(0, sanitizeNumber(pattern.opacity, 1)));
+  if (opacity <= 0) {
+    return null;
+  }
+
+  const color = resolveSchemePaint(pattern.color, colorScheme) as
+    | ColorValue
+    | undefined;
+  return {
+    path: pattern.path,
+    width: pattern.width,
+    height: pattern.height,
+    color: color ?? '#000',
+    opacity,
+    angle: sanitizeNumber(pattern.angle, 0),
+  };
+}
+
+/**
+ * Returns the tile a surface image is drawn into: its own tile size, or the whole
+ * frame when it is fitted once.
+ *
+ * @param image Normalized surface image.
+ * @param frame Size of the squircle.
+ * @returns MeasuredFrame Size of one tile.
+ */
+export function resolveImageTile(
+  image: NormalizedSurfaceImage,
+  frame: MeasuredFrame,
+): MeasuredFrame {
+  return image.tileSize ?? { width: frame.width, height: frame.height };
+}
+
+/**
+ * Reads the URI of a remote or local file image source. Bundled assets are plain
+ * numbers resolved by React Native at runtime and have no URI.
+ *
+ * @param source Image source of a surface image.
+ * @returns string | null URI of the image, or null when there is none.
+ */
+export function getImageSourceUri(source: ImageSourcePropType) {
+  const image = Array.isArray(source) ? source[0] : source;
+  return typeof image === 'object' && image !== null && image.uri
+    ? image.uri
+    : null;
+}
@@ -0,0 +1,380 @@
+/**
+ * @file packages/expo-squircle/src/core/svgDocument.ts
+ * @description Serializes a squircle into a standalone SVG document without React or React Native.
+ *
+ * Exports
+ *   - toSquircleSVG
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type {
+  RoundedSurfaceOptions,
+  SquircleBlendMode,
+  SquircleSVGOptions,
+} from '../ExpoSquircle.types';
+import { BORDER_SIDES } from './borders';
+import { computeSquircleGeometry } from './geometry';
+import {
+  isSquircleGradient,
+  resolveLinearGradient,
+  resolveRadialGradient,
+} from './paint';
+import { normalizeSquircleParams } from './params';
+import {
+  getImageSourceUri,
+  PRESERVE_ASPECT_RATIO,
+  resolveImageTile,
+} from './surfaceFills';
+import type {
+  NormalizedPaintLayer,
+  NormalizedSquircleGradient,
+  NormalizedSquirclePaint,
+  SquircleLayerGeometry,
+} from './types';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * Renders the layers of a squircle, by default its fill and border, as a complete
+ * SVG document, using the same params normalization and path builder as the
+ * components. Output only depends on its arguments, so it is safe for server
+ * rendering and snapshot tests. Borders painted outside the outline widen the
+ * `viewBox` the same way they widen the on-screen canvas. Surface images are only
+ * included when their source has a URI. Shadows are not included.
+ *
+ * @param options Squircle drawing options, as passed to `squircleParams`.
+ * @param svgOptions Document size plus an optional color scheme and id prefix.
+ * @returns string SVG markup, or an empty document when the size is not positive.
+ * @throws Error when the options are invalid.
+ */
+export function toSquircleSVG(
+  options: RoundedSurfaceOptions,
+  { width, height, colorScheme, idPrefix = 'squircle' }: SquircleSVGOptions,
+) {
+  const params = normalizeSquircleParams(options, { colorScheme });
+  const geometry = computeSquircleGeometry({ width, height }, params);
+  if (!geometry) {
+    return `<svg xmlns="${SVG_NAMESPACE}" width="0" height="0"/>`;
+  }
+
+  const { path, borderOutset, strokeClip, sideBorders } = geometry;
+  const canvasWidth = geometry.width + borderOutset * 2;
+  const canvasHeight = geometry.height + borderOutset * 2;
+  const clipId = `${idPrefix}-clip`;
+  const outsideClipId = `${idPrefix}-clip-outside`;
+  const strokeGradientId = `${idPrefix}-stroke`;
+  const hasStroke = geometry.strokeCommandWidth > 0;
+
+  const defs: string[] = [];
+  const border: string[] = [];
+
+  if ((hasStroke || sideBorders) && isSquircleGradient(params.borderColor)) {
+    defs.push(
+      renderGradient(
+        params.borderColor,
+        strokeGradientId,
+        geometry.width,
+        geometry.height,
+      ),
+    );
+  }
+
+  if (hasStroke) {
+    if (strokeClip === 'inside') {
+      defs.push(clipPath(clipId, element('path', { d: path })));
+    }
+    if (strokeClip === 'outside') {
+      defs.push(
+        clipPath(
+          outsideClipId,
+          element('path', {
+            d: `M ${-borderOutset} ${-borderOutset} h ${canvasWidth} v ${canvasHeight} h ${-canvasWidth} Z ${path}`,
+            'clip-rule': 'evenodd',
+          }),
+        ),
+      );
+    }
+    border.push(
+      element('path', {
+        d: geometry.strokePath,
+        transform: geometry.strokeOffset
+          ? `translate(${geometry.strokeOffset} ${geometry.strokeOffset})`
+          : undefined,
+        fill: 'none',
+        stroke: resolvePaint(params.borderColor, strokeGradientId),
+        'stroke-width': geometry.strokeCommandWidth,
+        'stroke-dasharray': geometry.strokeDashArray?.join(' '),
+        'stroke-linecap': geometry.strokeLineCap,
+        'clip-path':
+          strokeClip === 'inside'
+            ? `url(#${clipId})`
+            : strokeClip === 'outside'
+            ? `url(#${outsideClipId})`
+            : undefined,
+      }),
+    );
+  }
+
+  if (sideBorders && params.borderSides) {
+    BORDER_SIDES.forEach((side) => {
+      const sideBorder = params.borderSides?.[side];
+      if (!sideBorder || sideBorder.width <= 0) {
+        return;
+      }
+      const sideClipId = `${idPrefix}-border-${side}`;
+      defs.push(
+        clipPath(sideClipId, element('path', { d: sideBorders.regions[side] })),
+      );
+      border.push(
+        element('path', {
+          d: sideBorders.bandPath,
+          'fill-rule': 'evenodd',
+          fill: resolvePaint(sideBorder.color, strokeGradientId),
+          'clip-path': `url(#${sideClipId})`,
+        }),
+      );
+    });
+  }
+
+  const surface: string[] = [];
+  const { surfaceImage, surfacePattern } = params;
+  const imageUri = surfaceImage && getImageSourceUri(surfaceImage.source);
+  if (surfaceImage && imageUri) {
+    const tile = resolveImageTile(surfaceImage, geometry);
+    defs.push(
+      pattern(
+        {
+          id: `${idPrefix}-image`,
+          patternUnits: 'userSpaceOnUse',
+          width: tile.width,
+          height: tile.height,
+        },
+        element('image', {
+          href: imageUri,
+          width: tile.width,
+          height: tile.height,
+          preserveAspectRatio: PRESERVE_ASPECT_RATIO[surfaceImage.resizeMode],
+        }),
+      ),
+    );
+    surface.push(
+      element('path', {
+        d: path,
+        fill: `url(#${idPrefix}-image)`,
+        'fill-opacity': surfaceImage.opacity,
+      }),
+    );
+  }
+  if (surfacePattern) {
+    defs.push(
+      pattern(
+        {
+          id: `${idPrefix}-pattern`,
+          patternUnits: 'userSpaceOnUse',
+          width: surfacePattern.width,
+          height: surfacePattern.height,
+          patternTransform: surfacePattern.angle
+            ? `rotate(${surfacePattern.angle})`
+            : undefined,
+        },
+        element('path', {
+          d: surfacePattern.path,
+          fill: String(surfacePattern.color),
+        }),
+      ),
+    );
+    surface.push(
+      element('path', {
+        d: path,
+        fill: `url(#${idPrefix}-pattern)`,
+        'fill-opacity': surfacePattern.opacity,
+      }),
+    );
+  }
+
+  const layers = params.layers.map((layer, index) => {
+    if (layer.type === 'border') {
+      return border.join('');
+    }
+
+    const layerId = `${idPrefix}-layer-${index}`;
+    if (layer.fill !== null && isSquircleGradient(layer.fill)) {
+      defs.push(
+        renderGradient(
+          layer.fill,
+          `${layerId}-fill`,
+          geometry.width,
+          geometry.height,
+        ),
+      );
+    }
+    if (layer.stroke !== null && isSquircleGradient(layer.stroke)) {
+      defs.push(
+        renderGradient(
+          layer.stroke,
+          `${layerId}-stroke`,
+          geometry.width,
+          geometry.height,
+        ),
+      );
+    }
+    return renderLayer(layer, geometry.layers[index], layerId);
+  });
+  const body =
+    layers.length > 0 ? [layers[0], ...surface, ...layers.slice(1)] : surface;
+
+  return [
+    `<svg xmlns="${SVG_NAMESPACE}" width="${canvasWidth}" height="${canvasHeight}" viewBox="${-borderOutset} ${-borderOutset} ${canvasWidth} ${canvasHeight}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    ...body,
+    '</svg>',
+  ].join('');
+}
+
+/**
+ * Serializes the fill and stroke of a paint layer, grouped when the layer has its
+ * own opacity or blend mode.
+ */
+function renderLayer(
+  layer: NormalizedPaintLayer,
+  layerGeometry: SquircleLayerGeometry | null,
+  layerId: string,
+) {
+  if (!layerGeometry) {
+    return '';
+  }
+
+  const { fillPath, strokePath } = layerGeometry;
+  const content = [
+    fillPath && layer.fill !== null
+      ? element('path', {
+          d: fillPath,
+          fill: resolvePaint(layer.fill, `${layerId}-fill`),
+        })
+      : '',
+    strokePath && layer.stroke !== null
+      ? element('path', {
+          d: strokePath,
+          'fill-rule': 'evenodd',
+          fill: resolvePaint(layer.stroke, `${layerId}-stroke`),
+        })
+      : '',
+  ].join('');
+
+  if (layer.opacity === 1 && layer.blendMode === 'normal') {
+    return content;
+  }
+
+  return `<g${serializeAttributes({
+    opacity: layer.opacity === 1 ? undefined : layer.opacity,
+    style: blendModeStyle(layer.blendMode),
+  })}>${content}</g>`;
+}
+
+/**
+ * Returns the inline style that applies a CSS blend mode, if any.
+ */
+function blendModeStyle(blendMode: SquircleBlendMode) {
+  return blendMode === 'normal' ? undefined : `mix-blend-mode:${blendMode}`;
+}
+
+/**
+ * Serializes a gradient definition in user space over the squircle frame.
+ */
+function renderGradient(
+  gradient: NormalizedSquircleGradient,
+  id: string,
+  width: number,
+  height: number,
+) {
+  const stops = gradient.stops
+    .map((stop) =>
+      element('stop', {
+        offset: stop.offset,
+        'stop-color': String(stop.color),
+        'stop-opacity': stop.opacity,
+      }),
+    )
+    .join('');
+
+  if (gradient.type === 'radial') {
+    const { cx, cy, r } = resolveRadialGradient(gradient, width, height);
+    return `<radialGradient${serializeAttributes({
+      id,
+      cx,
+      cy,
+      r,
+      gradientUnits: 'userSpaceOnUse',
+    })}>${stops}</radialGradient>`;
+  }
+
+  const { x1, y1, x2, y2 } = resolveLinearGradient(gradient, width, height);
+  return `<linearGradient${serializeAttributes({
+    id,
+    x1,
+    y1,
+    x2,
+    y2,
+    gradientUnits: 'userSpaceOnUse',
+  })}>${stops}</linearGradient>`;
+}
+
+/**
+ * Serializes a clip path definition around its content.
+ */
+function clipPath(id: string, content: string) {
+  return `<clipPath${serializeAttributes({ id })}>${content}</clipPath>`;
+}
+
+/**
+ * Serializes a pattern definition around its content.
+ */
+function pattern(
+  attributes: Record<string, string | number | undefined>,
+  content: string,
+) {
+  return `<pattern${serializeAttributes(attributes)}>${content}</pattern>`;
+}
+
+/**
+ * Serializes a self-closing element, skipping undefined attributes and escaping
+ * the rest.
+ */
+function element(
+  name: string,
+  attributes: Record<string, string | number | undefined>,
+) {
+  return `<${name}${serializeAttributes(attributes)}/>`;
+}
+
+/**
+ * Serializes attributes with a leading space each, skipping undefined values.
+ */
+function serializeAttributes(
+  attributes: Record<string, string | number | undefined>,
+) {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeAttribute(String(value))}"`)
+    .join('');
+}
+
+/**
+ * Returns a plain color as is, or a reference to the gradient `gradientId`.
+ */
+function resolvePaint(paint: NormalizedSquirclePaint, gradientId: string) {
+  return isSquircleGradient(paint) ? `url(#${gradientId})` : String(paint);
+}
+
+/**
+ * Escapes the characters that would end or break out of a quoted attribute.
+ */
+function escapeAttribute(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -3,36 +3,227 @@
  * @description Shared types used by core squircle helpers.
  *
  * Exports
+ *   - NormalizedSquircleRadius
  *   - NormalizedRoundedSurfaceOptions
+ *   - NormalizedBorderSide
+ *   - NormalizedBorderSides
+ *   - NormalizedGradientStop
+ *   - NormalizedLinearGradient
+ *   - NormalizedRadialGradient
+ *   - NormalizedSquircleGradient
+ *   - NormalizedSquirclePaint
+ *   - ResolvedLinearGradient
+ *   - ResolvedRadialGradient
+ *   - NormalizedSquircleShadow
+ *   - InsetShadowGeometry
+ *   - NormalizedPaintLayer
+ *   - NormalizedSquircleLayer
+ *   - NormalizedSurfaceImage
+ *   - NormalizedSquirclePattern
+ *   - MeasuredFrame
+ *   - SquircleRenderGeometry
+ *   - SquircleLayerGeometry
+ *   - SquircleStroke
+ *   - SquircleSideBorders
  *   - CornerId
  *   - CornerProfile
  *   - CornerProfiles
  *   - CornerBudget
  *   - BezierPatch
  *   - BezierPatchInput
+ *   - CubicCorner
+ *   - CornerBudgets
  *   - SquirclePathInput
+ *   - SquircleParamsProp
+ *   - SquircleParamsContext
+ *   - SideInsets
  *
  * @license MIT. Internal helper for expo-squircle.
  * @author Doğu Abaris <abaris@null.net>
  */
 
-import type { ColorValue } from 'react-native';
+import type { ColorValue, ImageSourcePropType } from 'react-native';
 
-import type { SquircleComponentProps } from '../ExpoSquircle.types';
+import type {
+  RoundedSurfaceOptions,
+  SquircleBorderAlignment,
+  SquircleBorderSide,
+  SquircleBlendMode,
+  SquircleBorderStyle,
+  SquircleColorScheme,
+  SquircleCurve,
+  SquircleImageResizeMode,
+  SquirclePathInput,
+  SquirclePoint,
+} from '../ExpoSquircle.types';
+
+export type { BezierPatch, SquirclePathInput } from '../ExpoSquircle.types';
+
+/**
+ * Radius in logical pixels, as a percentage of the frame's shorter side, or the
+ * capsule keyword. Relative forms are resolved once the frame is measured.
+ */
+export type NormalizedSquircleRadius = number | { percent: number } | 'capsule';
 
 /**
  * Sanitized squircle options consumed by the view layer.
  */
 export type NormalizedRoundedSurfaceOptions = {
-  baseRadius: number;
-  topLeftRadius?: number;
-  topRightRadius?: number;
-  bottomRightRadius?: number;
-  bottomLeftRadius?: number;
+  baseRadius: NormalizedSquircleRadius;
+  topLeftRadius?: NormalizedSquircleRadius;
+  topRightRadius?: NormalizedSquircleRadius;
+  bottomRightRadius?: NormalizedSquircleRadius;
+  bottomLeftRadius?: NormalizedSquircleRadius;
   smoothFactor: number;
-  surfaceColor: ColorValue;
-  borderColor: ColorValue;
+  topLeftSmoothFactor?: number;
+  topRightSmoothFactor?: number;
+  bottomRightSmoothFactor?: number;
+  bottomLeftSmoothFactor?: number;
+  preserveSmoothing: boolean;
+  curve: SquircleCurve;
+  superellipseExponent: number;
+  pixelSnapping: boolean;
+  pixelRatio: number;
+  surfaceColor: NormalizedSquirclePaint;
+  surfaceImage: NormalizedSurfaceImage | null;
+  surfacePattern: NormalizedSquirclePattern | null;
+  borderColor: NormalizedSquirclePaint;
   borderWidth: number;
+  borderAlignment: SquircleBorderAlignment;
+  borderStyle: SquircleBorderStyle;
+  borderDashLength: number;
+  borderGapLength: number;
+  /** Per-side borders, or null when the shared border applies to every side. */
+  borderSides: NormalizedBorderSides | null;
+  shadows: NormalizedSquircleShadow[];
+  insetShadows: NormalizedSquircleShadow[];
+  layers: NormalizedSquircleLayer[];
+};
+
+export type NormalizedBorderSide = {
+  width: number;
+  color: NormalizedSquirclePaint;
+};
+
+export type NormalizedBorderSides = Record<
+  SquircleBorderSide,
+  NormalizedBorderSide
+>;
+
+/**
+ * Gradient stop with its offset and opacity clamped to the [0, 1] range.
+ */
+export type NormalizedGradientStop = {
+  offset: number;
+  color: ColorValue;
+  opacity: number;
+};
+
+export type NormalizedLinearGradient = {
+  type: 'linear';
+  stops: NormalizedGradientStop[];
+  angle: number;
+  start?: SquirclePoint;
+  end?: SquirclePoint;
+};
+
+export type NormalizedRadialGradient = {
+  type: 'radial';
+  stops: NormalizedGradientStop[];
+  center: SquirclePoint;
+  radius: number;
+};
+
+export type NormalizedSquircleGradient =
+  | NormalizedLinearGradient
+  | NormalizedRadialGradient;
+
+export type NormalizedSquirclePaint = ColorValue | NormalizedSquircleGradient;
+
+/**
+ * Linear gradient vector expressed in the frame's user space.
+ */
+export type ResolvedLinearGradient = {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+};
+
+/**
+ * Radial gradient circle expressed in the frame's user space.
+ */
+export type ResolvedRadialGradient = {
+  cx: number;
+  cy: number;
+  r: number;
+};
+
+/**
+ * Shadow layer with every field resolved to a concrete value.
+ */
+export type NormalizedSquircleShadow = {
+  offsetX: number;
+  offsetY: number;
+  blurRadius: number;
+  spread: number;
+  color: ColorValue;
+  opacity: number;
+};
+
+/**
+ * Path an inset shadow layer is painted with, in the layer's translated space: the
+ * even-odd area between a rect covering the shadow canvas and the shrunken outline,
+ * plus the region its blur filter covers.
+ */
+export type InsetShadowGeometry = {
+  path: string;
+  translateX: number;
+  translateY: number;
+  region: { x: number; y: number; width: number; height: number };
+};
+
+/**
+ * Layer with every field resolved. `fill` and `stroke` are null when the layer does
+ * not paint them.
+ */
+export type NormalizedPaintLayer = {
+  type: 'paint';
+  fill: NormalizedSquirclePaint | null;
+  stroke: NormalizedSquirclePaint | null;
+  strokeWidth: number;
+  opacity: number;
+  blendMode: SquircleBlendMode;
+  inset: number;
+};
+
+/**
+ * Layer painted by the backdrop. The `'border'` layer draws the border options and
+ * only appears in the default layers.
+ */
+export type NormalizedSquircleLayer = NormalizedPaintLayer | { type: 'border' };
+
+/**
+ * Surface image with its fit resolved. `tileSize` is null when the image is fitted
+ * to the frame once.
+ */
+export type NormalizedSurfaceImage = {
+  source: ImageSourcePropType;
+  resizeMode: SquircleImageResizeMode;
+  tileSize: MeasuredFrame | null;
+  opacity: number;
+};
+
+/**
+ * Pattern with a positive tile size and every optional field resolved.
+ */
+export type NormalizedSquirclePattern = {
+  path: string;
+  width: number;
+  height: number;
+  color: ColorValue;
+  opacity: number;
+  angle: number;
 };
 
 export type CornerId = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight';
@@ -59,39 +250,49 @@ export type CornerBudget = {
   roundingAndSmoothingBudget: number;
 };
 
+export type BezierPatchInput = CornerBudget & {
+  preserveSmoothing: boolean;
+};
+
 /**
- * Precomputed distances used to render a rounded squircle corner.
+ * Corner drawn from cubic beziers only. `points` holds six numbers per cubic (two
+ * handles and the end point) in the corner's local frame, and `p` is the length the
+ * corner consumes on each edge.
  */
-export type BezierPatch = {
-  a: number;
-  b: number;
-  c: number;
-  d: number;
-  p: number;
+export type CubicCorner = {
   cornerRadius: number;
-  arcSectionLength: number;
-};
-
-export type BezierPatchInput = CornerBudget & {
-  preserveSmoothing: boolean;
+  p: number;
+  points: number[];
 };
 
 /**
- * Complete set of inputs that define a squircle’s geometry.
+ * Frame size plus the patch inputs resolved for each corner.
  */
-export type SquirclePathInput = {
-  cornerRadius?: number;
-  topLeftCornerRadius?: number;
-  topRightCornerRadius?: number;
-  bottomRightCornerRadius?: number;
-  bottomLeftCornerRadius?: number;
-  cornerSmoothing: number;
+export type CornerBudgets = {
   width: number;
   height: number;
-  preserveSmoothing?: boolean;
+  topLeft: BezierPatchInput;
+  topRight: BezierPatchInput;
+  bottomRight: BezierPatchInput;
+  bottomLeft: BezierPatchInput;
 };
 
-export type SquircleParamsProp = SquircleComponentProps['squircleParams'];
+export type SquircleParamsProp =
+  | RoundedSurfaceOptions
+  | Partial<RoundedSurfaceOptions>
+  | undefined;
+
+/**
+ * Theme inputs applied while normalizing params.
+ */
+export type SquircleParamsContext = {
+  preset?: Partial<RoundedSurfaceOptions>;
+  colorScheme?: SquircleColorScheme;
+  /** Device pixels per logical pixel, used by `pixelSnapping`. Defaults to 1. */
+  pixelRatio?: number;
+  /** Width that `borderWidth: 'hairline'` resolves to. Defaults to 1. */
+  hairlineWidth?: number;
+};
 
 /**
  * Convenience shape describing the corner radii spread across each edge.
@@ -104,3 +305,57 @@ export type CornerSpreadInput = {
   width: number;
   height: number;
 };
+
+/**
+ * Distance to move each edge of a squircle inward; negative values move it outward.
+ */
+export type SideInsets = Record<SquircleBorderSide, number>;
+
+export type MeasuredFrame = { width: number; height: number };
+
+/**
+ * Stroke drawn for the border: the path it follows, how it is clipped and how far
+ * it paints past the measured frame.
+ */
+export type SquircleStroke = {
+  strokeCommandWidth: number;
+  borderOutset: number;
+  strokePath: string;
+  strokeOffset?: number;
+  strokeClip: 'inside' | 'outside' | 'none';
+  strokeDashArray?: number[];
+  strokeLineCap?: 'butt' | 'round';
+  sideBorders?: SquircleSideBorders;
+};
+
+/**
+ * Geometry for per-side borders: a band between the outer and inner outlines that
+ * is filled once per side, each fill clipped to that side's region.
+ */
+export type SquircleSideBorders = {
+  bandPath: string;
+  borderOutset: number;
+  regions: Record<SquircleBorderSide, string>;
+};
+
+/**
+ * Everything the backdrop needs to paint a squircle for a measured frame.
+ */
+export type SquircleRenderGeometry = {
+  width: number;
+  height: number;
+  path: string;
+  pathInput: SquirclePathInput;
+  /** Paths of each layer, in paint order; null for the border layer. */
+  layers: (SquircleLayerGeometry | null)[];
+} & SquircleStroke;
+
+/**
+ * Paths a paint layer is drawn with, in the coordinates of the measured frame.
+ */
+export type SquircleLayerGeometry = {
+  /** Layer outline, or null without a fill or when the inset collapses it. */
+  fillPath: string | null;
+  /** Stroke band filled with the even-odd rule, or null without a stroke. */
+  strokePath: string | null;
+};
@@ -0,0 +1,60 @@
+/**
+ * @file packages/expo-squircle/src/core/web.ts
+ * @description Helpers that decide how the web implementation paints a squircle and format its CSS clip paths.
+ *
+ * Exports
+ *   - toCssClipPath
+ *   - canPaintSurfaceWithCss
+ *   - hasSquircleBorder
+ *
+ * @license MIT. Internal helper for expo-squircle.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { isSquircleGradient } from './paint';
+import type {
+  NormalizedRoundedSurfaceOptions,
+  SquircleRenderGeometry,
+} from './types';
+
+/**
+ * Wraps an SVG path in a CSS `path()` shape for `clip-path`.
+ *
+ * @param path SVG path in the element's own coordinate space.
+ * @returns string Value for the `clip-path` property.
+ */
+export function toCssClipPath(path: string) {
+  return `path('${path}')`;
+}
+
+/**
+ * Whether the fill can be drawn as a clipped CSS background. Gradients, images,
+ * patterns and shadows need SVG filters or paint servers, and custom layers need the
+ * SVG paint order, so those squircles fall back to SVG entirely. Only the default
+ * layers contain the border layer.
+ *
+ * @param params Normalized squircle params.
+ * @returns boolean True when a solid, shadow-free fill is requested.
+ */
+export function canPaintSurfaceWithCss(
+  params: NormalizedRoundedSurfaceOptions,
+) {
+  return (
+    params.layers.some((layer) => layer.type === 'border') &&
+    !isSquircleGradient(params.surfaceColor) &&
+    !params.surfaceImage &&
+    !params.surfacePattern &&
+    params.shadows.length === 0 &&
+    params.insetShadows.length === 0
+  );
+}
+
+/**
+ * Whether the geometry paints a border, either as a stroke or as per-side bands.
+ *
+ * @param geometry Geometry computed for the measured frame.
+ * @returns boolean True when a border has to be drawn.
+ */
+export function hasSquircleBorder(geometry: SquircleRenderGeometry) {
+  return geometry.strokeCommandWidth > 0 || Boolean(geometry.sideBorders);
+}
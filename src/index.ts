@@ -7,4 +7,24 @@
 
 export { default } from './ExpoSquircle';
 export { default as ExpoSquircle } from './ExpoSquircle';
+export { default as SquircleImage } from './SquircleImage';
+export { default as SquirclePressable } from './SquirclePressable';
+export { SquircleThemeProvider } from './SquircleTheme';
+export { SquircleNest, useConcentricSquircle } from './SquircleNest';
+export { default as AnimatedSquircle } from './AnimatedSquircle';
+export {
+  buildSquirclePathWorklet,
+  interpolateSquirclePath,
+} from './core/squircleWorklets';
+export { getSquircleGeometry } from './core/outline';
+export {
+  clearSquircleCache,
+  configureSquircleCache,
+  getSquircleCacheStats,
+} from './core/squircleMath';
+export { prewarmSquirclePaths } from './core/geometry';
+export { offsetSquircle } from './core/concentric';
+export { toSquircleSVG } from './core/svgDocument';
+export { fromFigmaNode } from './core/figma';
+export { pointInSquircle } from './core/hitTest';
 export * from './ExpoSquircle.types';
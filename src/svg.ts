@@ -0,0 +1,17 @@
+/**
+ * @file packages/expo-squircle/src/svg.ts
+ * @description Entry point for SVG export and Figma import that does not load React or React Native, compiled to CommonJS in `build/node` for plain Node.
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ */
+
+export { toSquircleSVG } from './core/svgDocument';
+export { getSquircleGeometry } from './core/outline';
+export { offsetSquircle } from './core/concentric';
+export { fromFigmaNode } from './core/figma';
+export type {
+  RoundedSurfaceOptions,
+  SquircleFigmaImport,
+  SquircleFigmaNode,
+  SquircleSVGOptions,
+} from './ExpoSquircle.types';
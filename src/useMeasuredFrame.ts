@@ -0,0 +1,94 @@
+/**
+ * @file packages/expo-squircle/src/useMeasuredFrame.ts
+ * @description Hooks that track a view's laid-out size for squircle geometry.
+ *
+ * Exports
+ *   - useMeasuredFrame
+ *   - usePredictedFrame
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import type { LayoutChangeEvent, ViewProps } from 'react-native';
+
+import type { MeasuredFrame } from './core/types';
+
+type MeasuredState = {
+  frame: MeasuredFrame;
+  predicted: MeasuredFrame | null;
+};
+
+/**
+ * Stores the latest layout size, keeping the previous object when the size did not
+ * change so memoized geometry is not rebuilt.
+ *
+ * @param onLayout Layout callback forwarded from React Native.
+ * @param predictedFrame Size known before layout, drawn on the first frame.
+ * @returns Frame (null before the first layout unless predicted) and the layout handler.
+ */
+export function useMeasuredFrame(
+  onLayout: ViewProps['onLayout'],
+  predictedFrame: MeasuredFrame | null = null,
+) {
+  const { frame, reportFrame } = usePredictedFrame(predictedFrame);
+
+  const handleLayout = useCallback(
+    (event: LayoutChangeEvent) => {
+      reportFrame(event.nativeEvent.layout);
+      onLayout?.(event);
+    },
+    [onLayout, reportFrame],
+  );
+
+  return { frame, handleLayout };
+}
+
+/**
+ * Combines a predicted size with measured ones. The prediction is used until a
+ * measurement disagrees with it; measurements that match it do not re-render. A new
+ * prediction takes over again until the next measurement.
+ *
+ * @param predictedFrame Size known before layout, or null for flexible layouts.
+ * @returns Current frame and a callback that reports measured sizes.
+ */
+export function usePredictedFrame(predictedFrame: MeasuredFrame | null) {
+  const predictedWidth = predictedFrame?.width;
+  const predictedHeight = predictedFrame?.height;
+  const predicted = useMemo(
+    () =>
+      predictedWidth === undefined || predictedHeight === undefined
+        ? null
+        : { width: predictedWidth, height: predictedHeight },
+    [predictedWidth, predictedHeight],
+  );
+  const [measured, setMeasured] = useState<MeasuredState | null>(null);
+
+  const reportFrame = useCallback(
+    ({ width, height }: MeasuredFrame) => {
+      setMeasured((prev) => {
+        const current = resolveFrame(prev, predicted);
+        if (current && current.width === width && current.height === height) {
+          return prev;
+        }
+        return { frame: { width, height }, predicted };
+      });
+    },
+    [predicted],
+  );
+
+  return { frame: resolveFrame(measured, predicted), reportFrame };
+}
+
+/**
+ * Uses a measurement only while the prediction it was taken under is still current.
+ */
+function resolveFrame(
+  measured: MeasuredState | null,
+  predicted: MeasuredFrame | null,
+) {
+  return measured && measured.predicted === predicted
+    ? measured.frame
+    : predicted ?? measured?.frame ?? null;
+}
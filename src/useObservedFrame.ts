@@ -0,0 +1,56 @@
+/**
+ * @file packages/expo-squircle/src/useObservedFrame.ts
+ * @description Web hook that tracks an element's size with a ResizeObserver.
+ *
+ * Exports
+ *   - useObservedFrame
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import type { RefObject } from 'react';
+import { useLayoutEffect } from 'react';
+
+import type { MeasuredFrame } from './core/types';
+import { usePredictedFrame } from './useMeasuredFrame';
+
+/**
+ * Measures the element behind `ref` before the browser paints and keeps the frame in
+ * sync through a `ResizeObserver`. Before the first measurement, including during
+ * server rendering, the frame is the predicted one (or null), so the server and the
+ * first client render produce the same markup.
+ *
+ * @param ref Ref whose current value is the DOM element to observe.
+ * @param predictedFrame Size known before layout, drawn on the first frame.
+ * @returns MeasuredFrame | null Border-box size, or null before the first measurement.
+ */
+export function useObservedFrame(
+  ref: RefObject<unknown>,
+  predictedFrame: MeasuredFrame | null = null,
+) {
+  const { frame, reportFrame } = usePredictedFrame(predictedFrame);
+
+  useLayoutEffect(() => {
+    const element = ref.current as HTMLElement | null;
+    if (!element) {
+      return undefined;
+    }
+
+    const update = () =>
+      reportFrame({
+        width: element.offsetWidth,
+        height: element.offsetHeight,
+      });
+
+    update();
+    if (typeof ResizeObserver === 'undefined') {
+      return undefined;
+    }
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, reportFrame]);
+
+  return frame;
+}
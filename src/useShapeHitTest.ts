@@ -0,0 +1,51 @@
+/**
+ * @file packages/expo-squircle/src/useShapeHitTest.ts
+ * @description Hook that keeps touches outside the squircle outline away from a view.
+ *
+ * Exports
+ *   - useShapeHitTest
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { useMemo } from 'react';
+import type { ViewProps } from 'react-native';
+
+import type { SquircleGeometry } from './ExpoSquircle.types';
+import { isTouchOutsideSquircle } from './core/hitTest';
+
+type HitTestProps = Pick<
+  ViewProps,
+  'onStartShouldSetResponder' | 'onResponderTerminationRequest'
+>;
+
+/**
+ * Builds the responder props of a dedicated hit-test view that covers the squircle
+ * frame underneath the children. Touches on the bare surface target that view, so
+ * their `locationX` and `locationY` are already relative to the frame when the
+ * decision is made. Touches that start outside the outline make the hit-test view
+ * the responder, which has no handlers, so the wrapper's own handlers never see
+ * them. Touches inside bubble up to the wrapper as usual.
+ *
+ * Touches that land on a child target the child and are left to it.
+ *
+ * @param geometry Outline to test against, or null to keep rectangular hit testing.
+ * @returns HitTestProps | null Props for the hit-test view, or null when no such
+ * view is needed.
+ */
+export function useShapeHitTest(
+  geometry: SquircleGeometry | null,
+): HitTestProps | null {
+  return useMemo(
+    () =>
+      geometry
+        ? {
+            onStartShouldSetResponder: (event) =>
+              isTouchOutsideSquircle(geometry, event.nativeEvent),
+            onResponderTerminationRequest: () => true,
+          }
+        : null,
+    [geometry],
+  );
+}
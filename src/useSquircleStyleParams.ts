@@ -0,0 +1,65 @@
+/**
+ * @file packages/expo-squircle/src/useSquircleStyleParams.ts
+ * @description Hook that resolves a squircle component's params from its props, theme and adopted style.
+ *
+ * Exports
+ *   - useSquircleStyleParams
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { useMemo } from 'react';
+import type { StyleProp, ViewStyle } from 'react-native';
+import { I18nManager, StyleSheet } from 'react-native';
+
+import { useSquircleParamsContext } from './SquircleTheme';
+import { normalizeSquircleParams } from './core/params';
+import { splitSquircleStyle } from './core/style';
+import type { SquircleParamsProp } from './core/types';
+
+/**
+ * Normalizes `squircleParams` over the theme preset. With `adoptStyle`, background,
+ * border and radius keys are moved out of `style` and merged into the preset layer,
+ * so explicit params still win.
+ *
+ * @param squircleParams Squircle drawing options from props.
+ * @param variant Theme preset merged underneath `squircleParams`.
+ * @param adoptStyle Whether to move drawable keys out of `style`.
+ * @param styleProp Style passed to the component.
+ * @returns Normalized params and the style that remains for the wrapper view.
+ * @throws Error when the params are invalid or the variant is not registered.
+ */
+export function useSquircleStyleParams(
+  squircleParams: SquircleParamsProp,
+  variant: string | undefined,
+  adoptStyle: boolean,
+  styleProp: StyleProp<ViewStyle>,
+) {
+  const paramsContext = useSquircleParamsContext(variant);
+  const { style, adopted } = useMemo(
+    () =>
+      adoptStyle
+        ? splitSquircleStyle(
+            StyleSheet.flatten(styleProp) ?? {},
+            I18nManager.isRTL,
+          )
+        : { style: styleProp, adopted: null },
+    [adoptStyle, styleProp],
+  );
+  const params = useMemo(
+    () =>
+      normalizeSquircleParams(
+        squircleParams,
+        adopted
+          ? {
+              ...paramsContext,
+              preset: { ...paramsContext.preset, ...adopted },
+            }
+          : paramsContext,
+      ),
+    [squircleParams, paramsContext, adopted],
+  );
+
+  return { style, params };
+}
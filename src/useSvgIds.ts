@@ -0,0 +1,33 @@
+/**
+ * @file packages/expo-squircle/src/useSvgIds.ts
+ * @description Hook that derives document-unique ids for SVG definitions from React's `useId`.
+ *
+ * Exports
+ *   - useSvgIds
+ *
+ * @license MIT. Copyright (c) Doğu Abaris.
+ * @author Doğu Abaris <abaris@null.net>
+ */
+
+import { useId, useMemo } from 'react';
+
+/**
+ * Returns the ids one component uses for its clip paths, gradients, shadows and
+ * patterns. They are derived from `useId`, so server-rendered markup and the
+ * hydrating client agree on them. Characters that are not safe inside `url(#…)`
+ * references are dropped.
+ *
+ * @returns Ids prefixed by the kind of definition they name.
+ */
+export function useSvgIds() {
+  const instanceId = useId().replace(/[^A-Za-z0-9_-]/g, '');
+  return useMemo(
+    () => ({
+      clipPath: `expoSquircleClip_${instanceId}`,
+      gradient: `expoSquircleGradient_${instanceId}`,
+      shadow: `expoSquircleShadow_${instanceId}`,
+      pattern: `expoSquirclePattern_${instanceId}`,
+    }),
+    [instanceId],
+  );
+}